@@ -0,0 +1,36 @@
+import * as vscode from 'vscode';
+import { AdtError } from '../services/AdtError';
+
+// Shows the server's message instead of the raw response, with the actions
+// that fit the error: a fresh logon after a timeout, the exception otherwise
+export async function showAdtError(title: string, error: unknown, system?: string): Promise<void> {
+    if (!(error instanceof AdtError)) {
+        vscode.window.showErrorMessage(`${title}: ${error instanceof Error ? error.message : error}`);
+        return;
+    }
+
+    const actions = error.kind === 'sessionTimeout' ? ['Reconnect', 'Show Details'] : ['Show Details'];
+    const selection = await vscode.window.showErrorMessage(`${title}: ${error.message}`, ...actions);
+    if (selection === 'Reconnect') {
+        await vscode.commands.executeCommand('abap-tools.reconnect', system);
+    } else if (selection === 'Show Details') {
+        await showDetails(error);
+    }
+}
+
+async function showDetails(error: AdtError) {
+    const summary = [
+        `${error.status} ${error.statusText}`,
+        error.namespace && `Namespace: ${error.namespace}`,
+        error.type && `Type: ${error.type}`,
+        ...Object.entries(error.properties).map(([key, value]) => `${key}: ${value}`)
+    ].filter(Boolean).join('\n');
+
+    const document = await vscode.workspace.openTextDocument({
+        content: error.body.trim().startsWith('<')
+            ? `<!--\n${summary.replace(/--/g, '- -')}\n-->\n${error.body}`
+            : `${summary}\n\n${error.body}`,
+        language: error.body.trim().startsWith('<') ? 'xml' : 'plaintext'
+    });
+    await vscode.window.showTextDocument(document, { preview: true });
+}
@@ -1,4 +1,7 @@
 import * as vscode from 'vscode';
+import { randomBytes } from 'crypto';
+import { AdtService } from '../services/AdtService';
+import { ClassField, checkObjectName, classFieldOfError } from '../services/AdtObjectCreation';
 
 export interface ClassDetails {
     project: string;
@@ -9,10 +12,14 @@ export interface ClassDetails {
     interfaces?: string[];
 }
 
+const CLASS_NAME_RULES = { label: 'Class', maxLength: 30 };
+
 export class CreateClassDialog {
-    constructor(private packageName: string) {}
+    constructor(private adtService: AdtService, private packageName: string) {}
 
-    async show(): Promise<ClassDetails | undefined> {
+    // The panel stays open until create succeeds; its errors are shown next
+    // to the field they are about
+    async show(create: (classDetails: ClassDetails) => Promise<void>): Promise<ClassDetails | undefined> {
         const panel = vscode.window.createWebviewPanel(
             'createClass',
             'Create ABAP Class',
@@ -20,22 +27,53 @@ export class CreateClassDialog {
             { enableScripts: true }
         );
 
-        const config = vscode.workspace.getConfiguration('abap-tools');
-        const project = config.get<string>('defaultProject') || '';
-
-        panel.webview.html = this.getWebviewContent(project, this.packageName);
+        panel.webview.html = this.getWebviewContent(this.adtService.systemId, this.packageName);
 
         return new Promise((resolve) => {
+            let done = false;
+            const finish = (classDetails?: ClassDetails) => {
+                done = true;
+                resolve(classDetails);
+                panel.dispose();
+            };
+            const post = (message: any) => {
+                if (!done) {
+                    panel.webview.postMessage(message);
+                }
+            };
+
+            panel.onDidDispose(() => {
+                if (!done) {
+                    done = true;
+                    resolve(undefined);
+                }
+            });
+
             panel.webview.onDidReceiveMessage(
-                message => {
+                async message => {
                     switch (message.command) {
-                        case 'createClass':
-                            resolve(message.classDetails);
-                            panel.dispose();
+                        case 'validate': {
+                            const error = await this.validateField(message.field, message.classDetails);
+                            post({ command: 'fieldError', field: message.field, id: message.id, error });
+                            break;
+                        }
+                        case 'createClass': {
+                            const classDetails: ClassDetails = message.classDetails;
+                            const errors = await this.validateAll(classDetails);
+                            if (Object.keys(errors).length) {
+                                post({ command: 'errors', errors });
+                                break;
+                            }
+                            try {
+                                await create(classDetails);
+                                finish(classDetails);
+                            } catch (error) {
+                                post({ command: 'errors', errors: { [classFieldOfError(error, classDetails)]: errorText(error) } });
+                            }
                             break;
+                        }
                         case 'cancel':
-                            resolve(undefined);
-                            panel.dispose();
+                            finish(undefined);
                             break;
                     }
                 },
@@ -44,21 +82,69 @@ export class CreateClassDialog {
         });
     }
 
+    private async validateAll(classDetails: ClassDetails): Promise<Partial<Record<ClassField, string>>> {
+        const errors: Partial<Record<ClassField, string>> = {};
+        for (const field of ['name', 'description', 'superclass', 'interfaces'] as ClassField[]) {
+            const error = await this.validateField(field, classDetails);
+            if (error) {
+                errors[field] = error;
+            }
+        }
+        return errors;
+    }
+
+    // Local checks first; the server is only asked once they pass
+    private async validateField(field: ClassField, classDetails: ClassDetails): Promise<string | undefined> {
+        try {
+            switch (field) {
+                case 'name':
+                    return checkObjectName(CLASS_NAME_RULES, classDetails.name)
+                        || await this.adtService.validateClassName(classDetails.name, classDetails.description, classDetails.package);
+                case 'description':
+                    if (!classDetails.description.trim()) {
+                        return 'A description is required';
+                    }
+                    return classDetails.description.length > 60 ? 'Descriptions are limited to 60 characters' : undefined;
+                case 'superclass':
+                    if (classDetails.superclass && !await this.adtService.objectExists(classDetails.superclass, 'CLAS/OC')) {
+                        return `Class ${classDetails.superclass} does not exist`;
+                    }
+                    return undefined;
+                case 'interfaces':
+                    for (const name of classDetails.interfaces || []) {
+                        if (!await this.adtService.objectExists(name, 'INTF/OI')) {
+                            return `Interface ${name} does not exist`;
+                        }
+                    }
+                    return undefined;
+                default:
+                    return undefined;
+            }
+        } catch (error) {
+            return errorText(error);
+        }
+    }
+
+    // Scripts only run with the page's nonce; settings values are escaped
     private getWebviewContent(project: string, packageName: string): string {
+        const nonce = randomBytes(16).toString('base64');
         return `<!DOCTYPE html>
         <html>
         <head>
+            <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
             <style>
                 body { padding: 10px; font-family: var(--vscode-font-family); }
                 .form-group { margin-bottom: 15px; }
                 label { display: block; margin-bottom: 5px; }
-                input, textarea { 
-                    width: 100%; 
+                input, textarea {
+                    width: 100%;
                     padding: 5px;
                     background: var(--vscode-input-background);
                     color: var(--vscode-input-foreground);
                     border: 1px solid var(--vscode-input-border);
                 }
+                input.invalid { border-color: var(--vscode-inputValidation-errorBorder); }
+                .error { color: var(--vscode-errorForeground); margin-top: 4px; min-height: 1em; }
                 .buttons { margin-top: 20px; }
                 button {
                     padding: 8px 15px;
@@ -68,6 +154,7 @@ export class CreateClassDialog {
                     border: none;
                     cursor: pointer;
                 }
+                button:disabled { opacity: 0.5; cursor: default; }
                 .required { color: red; }
             </style>
         </head>
@@ -75,19 +162,21 @@ export class CreateClassDialog {
             <form id="classForm">
                 <div class="form-group">
                     <label>Project <span class="required">*</span></label>
-                    <input type="text" id="project" value="${project}" readonly>
+                    <input type="text" id="project" value="${escapeHtml(project)}" readonly>
                 </div>
                 <div class="form-group">
                     <label>Package <span class="required">*</span></label>
-                    <input type="text" id="package" value="${packageName}" readonly>
+                    <input type="text" id="package" value="${escapeHtml(packageName)}" readonly>
                 </div>
                 <div class="form-group">
                     <label>Name <span class="required">*</span></label>
                     <input type="text" id="name" placeholder="ZCL_YOUR_CLASS_NAME" required>
+                    <div class="error" id="name-error"></div>
                 </div>
                 <div class="form-group">
                     <label>Description <span class="required">*</span></label>
                     <input type="text" id="description" required>
+                    <div class="error" id="description-error"></div>
                 </div>
                 <div class="form-group">
                     <label>Original Language</label>
@@ -96,40 +185,103 @@ export class CreateClassDialog {
                 <div class="form-group">
                     <label>Superclass</label>
                     <input type="text" id="superclass">
+                    <div class="error" id="superclass-error"></div>
                 </div>
                 <div class="form-group">
                     <label>Interfaces (comma-separated)</label>
                     <input type="text" id="interfaces" placeholder="IF_INTERFACE1, IF_INTERFACE2">
+                    <div class="error" id="interfaces-error"></div>
                 </div>
+                <div class="error" id="form-error"></div>
                 <div class="buttons">
-                    <button type="submit">Create</button>
-                    <button type="button" onclick="cancel()">Cancel</button>
+                    <button type="submit" id="create">Create</button>
+                    <button type="button" id="cancel">Cancel</button>
                 </div>
             </form>
-            <script>
-                document.getElementById('classForm').addEventListener('submit', (e) => {
-                    e.preventDefault();
-                    const vscode = acquireVsCodeApi();
-                    const classDetails = {
+            <script nonce="${nonce}">
+                const vscode = acquireVsCodeApi();
+                const errors = {};
+                const timers = {};
+                const latest = {};
+                let sequence = 0;
+                let creating = false;
+
+                function classDetails() {
+                    return {
                         project: document.getElementById('project').value,
                         package: document.getElementById('package').value,
-                        name: document.getElementById('name').value,
-                        description: document.getElementById('description').value,
-                        superclass: document.getElementById('superclass').value,
-                        interfaces: document.getElementById('interfaces').value.split(',').map(i => i.trim()).filter(i => i)
+                        name: document.getElementById('name').value.trim().toUpperCase(),
+                        description: document.getElementById('description').value.trim(),
+                        superclass: document.getElementById('superclass').value.trim().toUpperCase(),
+                        interfaces: document.getElementById('interfaces').value.split(',').map(i => i.trim().toUpperCase()).filter(i => i)
                     };
+                }
+
+                function showError(field, error) {
+                    errors[field] = error;
+                    document.getElementById(field + '-error').textContent = error || '';
+                    const input = document.getElementById(field);
+                    if (input) {
+                        input.classList.toggle('invalid', !!error);
+                    }
+                    document.getElementById('create').disabled = creating || Object.values(errors).some(Boolean);
+                }
+
+                // Validate each field once typing pauses; the name is
+                // checked again when the description changes
+                ['name', 'description', 'superclass', 'interfaces'].forEach(field => {
+                    document.getElementById(field).addEventListener('input', () => {
+                        const fields = field === 'description' ? ['description', 'name'] : [field];
+                        showError('form', undefined);
+                        fields.forEach(f => {
+                            clearTimeout(timers[f]);
+                            timers[f] = setTimeout(() => {
+                                latest[f] = ++sequence;
+                                vscode.postMessage({ command: 'validate', field: f, id: sequence, classDetails: classDetails() });
+                            }, 400);
+                        });
+                    });
+                });
+
+                window.addEventListener('message', event => {
+                    const message = event.data;
+                    if (message.command === 'fieldError' && message.id === latest[message.field]) {
+                        showError(message.field, message.error);
+                    } else if (message.command === 'errors') {
+                        creating = false;
+                        Object.keys(message.errors).forEach(field => showError(field, message.errors[field]));
+                    }
+                });
+
+                document.getElementById('classForm').addEventListener('submit', (e) => {
+                    e.preventDefault();
+                    creating = true;
+                    showError('form', undefined);
                     vscode.postMessage({
                         command: 'createClass',
-                        classDetails: classDetails
+                        classDetails: classDetails()
                     });
                 });
 
-                function cancel() {
-                    const vscode = acquireVsCodeApi();
+                document.getElementById('cancel').addEventListener('click', () => {
                     vscode.postMessage({ command: 'cancel' });
-                }
+                });
             </script>
         </body>
         </html>`;
     }
-} 
\ No newline at end of file
+}
+
+// Requests fail with an AdtError carrying the server's localized message
+function errorText(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,100 @@
+import * as vscode from 'vscode';
+import { AdtService } from '../services/AdtService';
+import { checkObjectName, CREATABLE_TYPES, CreatableObjectType, NewObjectDetails } from '../services/AdtObjectCreation';
+
+interface TypePickItem extends vscode.QuickPickItem {
+    objectType?: CreatableObjectType;
+}
+
+// Asks for type, name and description of a new object and validates the
+// name on the server. Classes keep their own dialog, so picking one
+// returns 'class' instead of details
+export class NewObjectWizard {
+    constructor(private adtService: AdtService, private packageName: string) {}
+
+    async show(): Promise<NewObjectDetails | 'class' | undefined> {
+        const picked = await vscode.window.showQuickPick<TypePickItem>([
+            { label: 'Class', description: 'CLAS/OC' },
+            ...CREATABLE_TYPES.map(objectType => ({
+                label: objectType.label,
+                description: objectType.type,
+                objectType
+            }))
+        ], {
+            placeHolder: `New ABAP object in package ${this.packageName}`,
+            ignoreFocusOut: true
+        });
+        if (!picked) {
+            return undefined;
+        }
+        if (!picked.objectType) {
+            return 'class';
+        }
+        const objectType = picked.objectType;
+
+        let container: string | undefined;
+        if (objectType.containerLabel) {
+            const label = objectType.containerLabel;
+            container = await this.ask(label, '', '', value => value ? undefined : `The ${label.toLowerCase()} is required`);
+            if (!container) {
+                return undefined;
+            }
+        }
+
+        // Ask again until the server accepts name and description
+        let name = '';
+        let description = '';
+        for (;;) {
+            name = await this.ask(`${objectType.label} name`, name, objectType.placeholder, value => checkObjectName(objectType, value)) || '';
+            if (!name) {
+                return undefined;
+            }
+            description = await this.askDescription(description) || '';
+            if (!description) {
+                return undefined;
+            }
+
+            const details: NewObjectDetails = { type: objectType.type, name, description, package: this.packageName, container };
+            const error = await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: `Checking ${name}` },
+                () => this.adtService.validateNewObject(details)
+            );
+            if (!error) {
+                if (objectType.type === 'DDLS/DF') {
+                    details.dataSource = await this.ask('Data source (optional)', '', 'e.g. SFLIGHT', () => undefined);
+                }
+                return details;
+            }
+            vscode.window.showErrorMessage(error);
+        }
+    }
+
+    // Upper case, trimmed input; undefined when cancelled
+    private async ask(
+        prompt: string,
+        value: string,
+        placeHolder: string,
+        validate: (value: string) => string | undefined
+    ): Promise<string | undefined> {
+        const input = await vscode.window.showInputBox({
+            prompt,
+            value,
+            placeHolder,
+            ignoreFocusOut: true,
+            validateInput: text => validate(text.trim().toUpperCase())
+        });
+        return input?.trim().toUpperCase();
+    }
+
+    private async askDescription(value: string): Promise<string | undefined> {
+        const input = await vscode.window.showInputBox({
+            prompt: 'Description',
+            value,
+            ignoreFocusOut: true,
+            validateInput: text => !text.trim()
+                ? 'A description is required'
+                : text.trim().length > 60 ? 'Descriptions are limited to 60 characters' : undefined
+        });
+        return input?.trim();
+    }
+}
@@ -0,0 +1,52 @@
+import * as vscode from 'vscode';
+import { AdtService, AdtTransportInfo, TransportSelector } from '../services/AdtService';
+
+interface TransportPickItem extends vscode.QuickPickItem {
+    number?: string;
+}
+
+// Lets the user pick one of the requests proposed by the transport check or
+// create a new one
+export class TransportPicker {
+    constructor(private adtService: AdtService) {}
+
+    async show(objectUri: string, info: AdtTransportInfo): Promise<string | undefined> {
+        const name = decodeURIComponent(AdtService.getObjectPath(objectUri).split('/').pop() || objectUri).toUpperCase();
+        const items: TransportPickItem[] = [
+            { label: '$(add) Create new transport request...' },
+            ...info.requests.map(request => ({
+                label: request.number,
+                description: request.description,
+                detail: request.owner,
+                number: request.number
+            }))
+        ];
+
+        const selected = await vscode.window.showQuickPick(items, {
+            placeHolder: `Select a transport request for ${name}${info.package ? ` (package ${info.package})` : ''}`,
+            ignoreFocusOut: true
+        });
+        if (!selected) {
+            return undefined;
+        }
+        if (selected.number) {
+            return selected.number;
+        }
+
+        const description = await vscode.window.showInputBox({
+            prompt: 'Description of the new transport request',
+            ignoreFocusOut: true,
+            validateInput: value => value.trim() ? undefined : 'A description is required'
+        });
+        if (!description) {
+            return undefined;
+        }
+        return this.adtService.createTransport(objectUri, info.package || '', description);
+    }
+
+    // Selector to pass to AdtService write operations
+    static selector(adtService: AdtService): TransportSelector {
+        const picker = new TransportPicker(adtService);
+        return (objectUri, info) => picker.show(objectUri, info);
+    }
+}
@@ -2,42 +2,57 @@ import * as vscode from 'vscode';
 import { AdtService } from './services/AdtService';
 import { PackageHierarchyProvider } from './providers/PackageHierarchyProvider';
 import { SidePanel } from './panels/SidePanel';
+import { DiscoveryPanel } from './panels/DiscoveryPanel';
+import { ConnectionManager } from './services/ConnectionManager';
+import { AdtFileSystemProvider, ADT_SCHEME } from './providers/AdtFileSystemProvider';
+import { InactiveObjectsProvider } from './providers/InactiveObjectsProvider';
+import { ActivationProvider } from './providers/ActivationProvider';
+import { SyntaxCheckProvider } from './providers/SyntaxCheckProvider';
+import { AtcProvider } from './providers/AtcProvider';
+import { UnitTestProvider } from './providers/UnitTestProvider';
+import { TransportsProvider } from './providers/TransportsProvider';
+import { ObjectSearchProvider } from './providers/ObjectSearchProvider';
+import { WhereUsedProvider } from './providers/WhereUsedProvider';
+import { AdtDefinitionProvider } from './providers/DefinitionProvider';
+import { AbapCompletionProvider } from './providers/CompletionProvider';
+import { AbapHoverProvider } from './providers/HoverProvider';
+import { AbapFormattingProvider } from './providers/FormattingProvider';
+import { AbapOutlineProvider } from './providers/OutlineProvider';
+import { showAdtError } from './dialogs/AdtErrorMessage';
 
 export function activate(context: vscode.ExtensionContext) {
     console.log('ABAP Tools extension is now active');
 
-    // Add check for required configuration
-    const config = vscode.workspace.getConfiguration('abap-tools');
-    const host = config.get('defaultHost');
-    
-    let adtService: AdtService;
-    try {
-        if (!host) {
-            // Show configuration prompt instead of throwing error
-            vscode.window.showWarningMessage(
-                'SAP host not configured. Would you like to configure it now?',
-                'Configure',
-                'Later'
-            ).then(selection => {
-                if (selection === 'Configure') {
-                    vscode.commands.executeCommand('workbench.action.openSettings', 'abap-tools');
-                }
-            });
-            // Create service with default values for now
-            adtService = new AdtService(true);
-        } else {
-            adtService = new AdtService();
-        }
-    } catch (error) {
-        console.error('Failed to create ADT service:', error);
-        adtService = new AdtService(true); // Create with test mode
+    // One AdtService per configured SAP system
+    const connectionManager = new ConnectionManager(context);
+    if (!connectionManager.hasActiveService()) {
+        // Show configuration prompt instead of throwing error
+        vscode.window.showWarningMessage(
+            'SAP system not configured. Would you like to configure it now?',
+            'Configure',
+            'Later'
+        ).then(selection => {
+            if (selection === 'Configure') {
+                vscode.commands.executeCommand('workbench.action.openSettings', 'abap-tools');
+            }
+        });
     }
 
     // Add status bar item
     const statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
-    statusBarItem.text = "$(plug) SAP";
-    statusBarItem.tooltip = "SAP Connection (Right-click for options)";
-    statusBarItem.command = 'abap-tools.connectSAP';
+    statusBarItem.command = 'abap-tools.statusBarMenu';
+    const updateStatusBar = () => {
+        const profile = connectionManager.activeProfile;
+        if (!profile) {
+            statusBarItem.text = "$(plug) SAP";
+            statusBarItem.tooltip = "SAP Connection (click for options)";
+            return;
+        }
+        const connected = connectionManager.getService(profile.name).getConnectionInfo().isConnected;
+        statusBarItem.text = `${connected ? '$(check)' : '$(plug)'} SAP: ${profile.name} ${profile.client}/${profile.language}`;
+        statusBarItem.tooltip = `${profile.host}:${profile.port}, client ${profile.client}, language ${profile.language} (click for options)`;
+    };
+    updateStatusBar();
     statusBarItem.show();
 
     // Add this near the other status bar item setup
@@ -51,8 +66,10 @@ export function activate(context: vscode.ExtensionContext) {
     vscode.commands.registerCommand('abap-tools.statusBarMenu', async () => {
         const items = [
             { label: 'Connect to SAP', command: 'abap-tools.connectSAP' },
+            { label: 'Switch SAP System', command: 'abap-tools.switchSystem' },
             { label: 'Show Connection Info', command: 'abap-tools.showConnectionInfo' },
-            { label: 'Disconnect', command: 'abap-tools.disconnect' }
+            { label: 'Disconnect', command: 'abap-tools.disconnect' },
+            { label: 'Forget Credentials', command: 'abap-tools.forgetCredentials' }
         ];
         
         const selected = await vscode.window.showQuickPick(items, {
@@ -75,65 +92,89 @@ export function activate(context: vscode.ExtensionContext) {
         {
             command: 'abap-tools.connectSAP',
             callback: async () => {
-                const config = vscode.workspace.getConfiguration('abap-tools');
-                
-                // Show connection details
-                const connectionInfo = `Host: ${config.get('defaultHost')}\nPort: ${config.get('defaultPort')}\nClient: ${config.get('defaultClient')}`;
-                const proceed = await vscode.window.showInformationMessage(
-                    `Connect to SAP System?\n${connectionInfo}`,
-                    'Connect', 'Cancel'
-                );
+                try {
+                    const adtService = connectionManager.activeService;
+                    const { profile } = adtService;
+
+                    // Stored credentials connect without any prompt
+                    if (await connectionManager.ensureConnected(profile.name)) {
+                        vscode.window.showInformationMessage(`Successfully connected to SAP system ${profile.name}`);
+                        return;
+                    }
 
-                if (proceed === 'Connect') {
-                    let username = await vscode.window.showInputBox({ 
-                        prompt: 'Enter SAP username',
-                        placeHolder: 'Username'
-                    });
-                    
-                    let password = await vscode.window.showInputBox({ 
-                        prompt: 'Enter SAP password',
-                        password: true,
-                        placeHolder: 'Password'
-                    });
-                    username = "i338631";
-                    password = "SSss123456*";
-                    if (username && password) {
-                        try {
-                            await adtService.setCredentials(username, password);
-                            const discoveryResult = await adtService.discoverService();
-                            statusBarItem.text = "$(check) SAP Connected";
-                            vscode.window.showInformationMessage('Successfully connected to SAP system');
-                            // Refresh package view after successful connection
-                            packageHierarchyProvider.refresh();
-                        } catch (error) {
-                            statusBarItem.text = "$(alert) SAP Disconnected";
-                            vscode.window.showErrorMessage(`Failed to connect: ${error}`);
+                    // Show connection details
+                    const connectionInfo = `System: ${profile.name}\nHost: ${profile.host}\nPort: ${profile.port}\nClient: ${profile.client}\nLanguage: ${profile.language}`;
+                    const proceed = await vscode.window.showInformationMessage(
+                        `Connect to SAP System?\n${connectionInfo}`,
+                        'Connect', 'Cancel'
+                    );
+
+                    if (proceed === 'Connect') {
+                        const stored = await connectionManager.getStoredCredentials(profile.name);
+                        const username = await vscode.window.showInputBox({ 
+                            prompt: `Enter SAP username for ${profile.name}`,
+                            placeHolder: 'Username',
+                            value: stored?.username || profile.user
+                        });
+                        
+                        const password = await vscode.window.showInputBox({ 
+                            prompt: 'Enter SAP password',
+                            password: true,
+                            placeHolder: 'Password'
+                        });
+                        if (username && password) {
+                            try {
+                                await connectionManager.connect(profile.name, username, password);
+                                vscode.window.showInformationMessage(`Successfully connected to SAP system ${profile.name}`);
+                            } catch (error) {
+                                statusBarItem.text = `$(alert) SAP: ${profile.name}`;
+                                showAdtError('Failed to connect', error, profile.name);
+                            }
                         }
                     }
+                } catch (error) {
+                    showAdtError('Failed to connect', error);
+                }
+            }
+        },
+        {
+            command: 'abap-tools.reconnect',
+            callback: async (system?: string) => {
+                try {
+                    const name = system || connectionManager.activeService.systemId;
+                    if (await connectionManager.reconnect(name)) {
+                        vscode.window.showInformationMessage(`Reconnected to SAP system ${name}`);
+                    } else if (name === connectionManager.activeService.systemId) {
+                        // No stored credentials, or they stopped working
+                        await vscode.commands.executeCommand('abap-tools.connectSAP');
+                    } else {
+                        vscode.window.showErrorMessage(`Could not reconnect to SAP system ${name}`);
+                    }
+                } catch (error) {
+                    showAdtError('Failed to reconnect', error, system);
                 }
             }
         },
+        {
+            command: 'abap-tools.switchSystem',
+            callback: () => connectionManager.pickSystem()
+        },
         {
             command: 'abap-tools.discoverAdt',
             callback: async () => {
-                const username = await vscode.window.showInputBox({ 
-                    prompt: 'Enter SAP username',
-                    placeHolder: 'Username'
-                });
-                
-                const password = await vscode.window.showInputBox({ 
-                    prompt: 'Enter SAP password',
-                    password: true,
-                    placeHolder: 'Password'
-                });
-
-                if (username && password) {
-                    try {
-                        await adtService.setCredentials(username, password);
-                        await adtService.discoverService();
-                    } catch (error) {
-                        vscode.window.showErrorMessage(`Failed to discover ADT services: ${error}`);
+                const system = connectionManager.hasActiveService() ? connectionManager.activeService.systemId : undefined;
+                try {
+                    const adtService = connectionManager.activeService;
+                    if (!await connectionManager.ensureConnected(adtService.systemId)) {
+                        await vscode.commands.executeCommand('abap-tools.connectSAP');
+                        if (!adtService.getConnectionInfo().isConnected) {
+                            return;
+                        }
                     }
+                    const catalog = await adtService.discoverService();
+                    DiscoveryPanel.createOrShow(adtService.systemId, catalog);
+                } catch (error) {
+                    showAdtError('Failed to discover ADT services', error, system);
                 }
             }
         },
@@ -146,15 +187,16 @@ export function activate(context: vscode.ExtensionContext) {
                 });
 
                 if (objectUri) {
+                    const system = connectionManager.hasActiveService() ? connectionManager.activeService.systemId : undefined;
                     try {
-                        const structure = await adtService.getObjectStructure(objectUri);
+                        const structure = await connectionManager.activeService.getObjectStructure(objectUri);
                         const doc = await vscode.workspace.openTextDocument({
                             content: JSON.stringify(structure, null, 2),
                             language: 'json'
                         });
                         await vscode.window.showTextDocument(doc);
                     } catch (error) {
-                        vscode.window.showErrorMessage(`Failed to get object structure: ${error}`);
+                        showAdtError('Failed to get object structure', error, system);
                     }
                 }
             }
@@ -163,28 +205,51 @@ export function activate(context: vscode.ExtensionContext) {
             command: 'abap-tools.showConnectionInfo',
             callback: async () => {
                 try {
-                    const connectionInfo = adtService.getConnectionInfo();
+                    const connectionInfo = connectionManager.activeService.getConnectionInfo();
                     if (connectionInfo.isConnected) {
                         const message = [
+                            `System: ${connectionInfo.system}`,
                             `Connected to: ${connectionInfo.url}`,
+                            `Client: ${connectionInfo.client}`,
+                            `Language: ${connectionInfo.language}`,
                             `Username: ${connectionInfo.username}`,
                             'Status: Connected'
                         ].join('\n');
                         vscode.window.showInformationMessage(message);
                     } else {
-                        vscode.window.showInformationMessage('Not connected to SAP system');
+                        vscode.window.showInformationMessage(`Not connected to SAP system ${connectionInfo.system}`);
                     }
                 } catch (error) {
-                    vscode.window.showErrorMessage(`Error getting connection info: ${error}`);
+                    showAdtError('Error getting connection info', error);
                 }
             }
         },
         {
             command: 'abap-tools.disconnect',
-            callback: () => {
-                adtService.disconnect();
-                statusBarItem.text = "$(plug) SAP";
-                vscode.window.showInformationMessage('Disconnected from SAP system');
+            callback: async (options?: { forgetCredentials?: boolean }) => {
+                if (!connectionManager.hasActiveService()) {
+                    return;
+                }
+                const system = connectionManager.activeService.systemId;
+                await connectionManager.disconnect(system, options?.forgetCredentials === true);
+                const selection = await vscode.window.showInformationMessage(
+                    `Disconnected from SAP system ${system}`,
+                    ...(options?.forgetCredentials ? [] : ['Forget Credentials'])
+                );
+                if (selection === 'Forget Credentials') {
+                    await connectionManager.forgetCredentials(system);
+                }
+            }
+        },
+        {
+            command: 'abap-tools.forgetCredentials',
+            callback: async () => {
+                if (!connectionManager.hasActiveService()) {
+                    return;
+                }
+                const system = connectionManager.activeService.systemId;
+                await connectionManager.disconnect(system, true);
+                vscode.window.showInformationMessage(`Stored credentials for ${system} removed`);
             }
         },
         {
@@ -202,58 +267,95 @@ export function activate(context: vscode.ExtensionContext) {
 
     // Register providers
     const providers = [
-        vscode.languages.registerCompletionItemProvider('abap', {
-            provideCompletionItems(document: vscode.TextDocument, position: vscode.Position) {
-                const completionItems: vscode.CompletionItem[] = [];
-
-                // Basic ABAP keywords
-                const keywords = [
-                    'REPORT', 'DATA', 'TYPES', 'CLASS', 'METHOD', 'ENDCLASS', 'ENDMETHOD',
-                    'IF', 'ELSE', 'ENDIF', 'LOOP', 'ENDLOOP', 'DO', 'ENDDO', 'WHILE', 'ENDWHILE',
-                    'SELECT', 'FROM', 'WHERE', 'INTO', 'TABLE', 'APPEND', 'MODIFY', 'DELETE',
-                    'FORM', 'ENDFORM', 'PERFORM', 'WRITE', 'CLEAR', 'REFRESH', 'SORT'
-                ];
-                
-                keywords.forEach(keyword => {
-                    const item = new vscode.CompletionItem(keyword, vscode.CompletionItemKind.Keyword);
-                    completionItems.push(item);
-                });
+        new AbapCompletionProvider(connectionManager),
+        new AbapHoverProvider(connectionManager),
+        new AbapFormattingProvider(connectionManager),
+        new AbapOutlineProvider()
+    ];
 
-                return completionItems;
+    // Serve ADT sources as editable adt:// documents
+    const fileSystemProvider = new AdtFileSystemProvider(connectionManager);
+    context.subscriptions.push(
+        vscode.workspace.registerFileSystemProvider(ADT_SCHEME, fileSystemProvider, {
+            isCaseSensitive: false
+        }),
+        // Sources opened through links and views have no file extension
+        vscode.workspace.onDidOpenTextDocument(document => {
+            if (document.uri.scheme === ADT_SCHEME) {
+                AdtFileSystemProvider.setLanguage(document);
             }
         }),
-        vscode.languages.registerHoverProvider('abap', {
-            provideHover(document: vscode.TextDocument, position: vscode.Position) {
-                const range = document.getWordRangeAtPosition(position);
-                const word = document.getText(range);
+        new AdtDefinitionProvider(connectionManager)
+    );
 
-                const hoverMap: { [key: string]: string } = {
-                    'REPORT': 'Defines an ABAP program',
-                    'DATA': 'Declares a local variable',
-                    'TYPES': 'Defines a local data type',
-                    'CLASS': 'Defines a local class',
-                    'METHOD': 'Defines a method in a class'
-                };
+    // Register Package Hierarchy View
+    const packageHierarchyProvider = new PackageHierarchyProvider(connectionManager, context.globalState);
+    const packageTreeView = vscode.window.createTreeView('sapPackages', {
+        treeDataProvider: packageHierarchyProvider
+    });
+    packageTreeView.description = connectionManager.activeProfile?.name;
 
-                if (hoverMap[word.toUpperCase()]) {
-                    return new vscode.Hover(hoverMap[word.toUpperCase()]);
-                }
-                return null;
-            }
-        })
-    ];
+    // Activation commands and the Inactive Objects view
+    const inactiveObjectsProvider = new InactiveObjectsProvider(connectionManager);
+    context.subscriptions.push(
+        vscode.window.registerTreeDataProvider('abapInactiveObjects', inactiveObjectsProvider),
+        new ActivationProvider(connectionManager, inactiveObjectsProvider),
+        new SyntaxCheckProvider(connectionManager)
+    );
 
-    // Register Package Hierarchy View
-    const packageHierarchyProvider = new PackageHierarchyProvider(adtService);
-    vscode.window.registerTreeDataProvider(
-        'sapPackages',
-        packageHierarchyProvider
+    // ABAP Test Cockpit runs and the ATC Findings view
+    const atcProvider = new AtcProvider(connectionManager);
+    context.subscriptions.push(
+        atcProvider,
+        vscode.window.registerTreeDataProvider('abapAtcFindings', atcProvider),
+        new UnitTestProvider(connectionManager)
+    );
+
+    // Transport requests of the logged on user
+    const transportsProvider = new TransportsProvider(connectionManager);
+    context.subscriptions.push(
+        transportsProvider,
+        vscode.window.registerTreeDataProvider('abapTransports', transportsProvider)
+    );
+
+    // Repository object search and workspace symbols
+    context.subscriptions.push(new ObjectSearchProvider(connectionManager));
+
+    // Where-used lists and Find All References
+    const whereUsedProvider = new WhereUsedProvider(connectionManager);
+    context.subscriptions.push(
+        whereUsedProvider,
+        vscode.window.registerTreeDataProvider('abapWhereUsed', whereUsedProvider)
     );
 
+    // Follow system switches in the tree and status bar
+    connectionManager.onDidChangeActiveConnection(() => {
+        packageTreeView.description = connectionManager.activeProfile?.name;
+        updateStatusBar();
+        packageHierarchyProvider.refresh();
+        inactiveObjectsProvider.refresh();
+        transportsProvider.refresh();
+    });
+    connectionManager.onDidChangeConnectionState(() => {
+        updateStatusBar();
+        packageHierarchyProvider.refresh();
+        inactiveObjectsProvider.refresh();
+        transportsProvider.refresh();
+    });
+
+    // Reconnect with stored credentials; the tree retries on first expand
+    const autoConnect = vscode.workspace.getConfiguration('abap-tools').get<boolean>('autoConnect', true);
+    const activeProfile = connectionManager.activeProfile;
+    if (autoConnect && activeProfile) {
+        connectionManager.ensureConnected(activeProfile.name);
+    }
+
     // Add refresh command
     context.subscriptions.push(
         ...disposables,
         ...providers,
+        connectionManager,
+        packageTreeView,
         statusBarItem,
         sidePanelButton,
         vscode.commands.registerCommand('abap-tools.refreshPackages', () => 
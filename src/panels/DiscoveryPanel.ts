@@ -0,0 +1,92 @@
+import * as vscode from 'vscode';
+import { AdtServiceCatalog, ADT_FEATURES, AdtFeature } from '../services/AdtDiscovery';
+
+export class DiscoveryPanel {
+    private static currentPanel: DiscoveryPanel | undefined;
+    private readonly _panel: vscode.WebviewPanel;
+    private _disposables: vscode.Disposable[] = [];
+
+    private constructor(panel: vscode.WebviewPanel) {
+        this._panel = panel;
+
+        this._panel.onDidDispose(
+            () => this.dispose(),
+            null,
+            this._disposables
+        );
+    }
+
+    public static createOrShow(system: string, catalog: AdtServiceCatalog) {
+        if (!DiscoveryPanel.currentPanel) {
+            const panel = vscode.window.createWebviewPanel(
+                'abapDiscovery',
+                'ADT Services',
+                vscode.ViewColumn.One,
+                { enableScripts: false }
+            );
+            DiscoveryPanel.currentPanel = new DiscoveryPanel(panel);
+        }
+
+        const { _panel } = DiscoveryPanel.currentPanel;
+        _panel.title = `ADT Services (${system})`;
+        _panel.webview.html = DiscoveryPanel.currentPanel._getWebviewContent(system, catalog);
+        _panel.reveal();
+    }
+
+    public dispose() {
+        DiscoveryPanel.currentPanel = undefined;
+        this._panel.dispose();
+        this._disposables.forEach(d => d.dispose());
+    }
+
+    private _getWebviewContent(system: string, catalog: AdtServiceCatalog) {
+        const features = (Object.keys(ADT_FEATURES) as AdtFeature[])
+            .map(feature => `<li>${catalog.hasFeature(feature) ? '&#10004;' : '&#10008;'} ${escape(feature)}</li>`)
+            .join('');
+
+        const workspaces = catalog.workspaces.map(workspace => `
+            <details>
+                <summary>${escape(workspace.title)} <span class="muted">(${workspace.collections.length})</span></summary>
+                ${workspace.collections.map(collection => `
+                    <div class="collection">
+                        <div><strong>${escape(collection.title)}</strong> <code>${escape(collection.href)}</code></div>
+                        ${collection.accept.length > 0
+                            ? `<div class="muted">Accepts: ${collection.accept.map(a => `<code>${escape(a)}</code>`).join(', ')}</div>`
+                            : ''}
+                        ${collection.templateLinks.length > 0
+                            ? `<ul>${collection.templateLinks.map(link =>
+                                `<li><code>${escape(link.template)}</code> <span class="muted">${escape(link.rel)}</span></li>`
+                            ).join('')}</ul>`
+                            : ''}
+                    </div>`).join('')}
+            </details>`).join('');
+
+        return `<!DOCTYPE html>
+        <html>
+        <head>
+            <meta charset="UTF-8">
+            <style>
+                body { padding: 10px; font-family: var(--vscode-font-family); color: var(--vscode-editor-foreground); }
+                summary { cursor: pointer; padding: 4px 0; font-weight: bold; }
+                .collection { margin: 6px 0 10px 18px; }
+                .muted { color: var(--vscode-descriptionForeground); font-weight: normal; }
+                code { font-family: var(--vscode-editor-font-family); }
+                ul.features { list-style: none; padding-left: 0; columns: 2; }
+            </style>
+        </head>
+        <body>
+            <h3>ADT services of ${escape(system)}</h3>
+            <ul class="features">${features}</ul>
+            ${workspaces}
+        </body>
+        </html>`;
+    }
+}
+
+function escape(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
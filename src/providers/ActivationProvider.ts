@@ -0,0 +1,167 @@
+import * as vscode from 'vscode';
+import { AdtActivationResult, AdtObjectReference, AdtService } from '../services/AdtService';
+import { ConnectionManager } from '../services/ConnectionManager';
+import { showAdtError } from '../dialogs/AdtErrorMessage';
+import { ADT_SCHEME, AdtFileSystemProvider } from './AdtFileSystemProvider';
+import { InactiveObjectItem, InactiveObjectsProvider } from './InactiveObjectsProvider';
+import { toDiagnosticSeverity } from './AdtDiagnostics';
+
+export class ActivationProvider implements vscode.Disposable {
+    private diagnostics = vscode.languages.createDiagnosticCollection('abap-activation');
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(
+        private connectionManager: ConnectionManager,
+        private inactiveObjectsProvider: InactiveObjectsProvider
+    ) {
+        this.disposables.push(
+            this.diagnostics,
+            vscode.commands.registerCommand('abap-tools.activate', async (item?: InactiveObjectItem | vscode.Uri) => {
+                try {
+                    if (item instanceof InactiveObjectItem) {
+                        const adtService = this.connectionManager.getService(item.system);
+                        await this.activate(adtService, [item.object]);
+                        return;
+                    }
+
+                    const uri = item instanceof vscode.Uri ? item : vscode.window.activeTextEditor?.document.uri;
+                    if (!uri || uri.scheme !== ADT_SCHEME) {
+                        vscode.window.showWarningMessage('Open an ABAP source from SAP to activate it');
+                        return;
+                    }
+                    const document = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+                    if (document?.isDirty) {
+                        await document.save();
+                        // Activate-on-save already took care of it
+                        if (vscode.workspace.getConfiguration('abap-tools').get<boolean>('activateOnSave', false)) {
+                            return;
+                        }
+                    }
+                    const adtService = this.connectionManager.getServiceForUri(uri);
+                    if (adtService) {
+                        await this.activate(adtService, [AdtFileSystemProvider.objectReference(uri)]);
+                    }
+                } catch (error) {
+                    const uri = item instanceof vscode.Uri ? item : vscode.window.activeTextEditor?.document.uri;
+                    showAdtError('Activation failed', error, item instanceof InactiveObjectItem ? item.system : uri?.authority);
+                }
+            }),
+            vscode.commands.registerCommand('abap-tools.activateAllInactive', async () => {
+                try {
+                    const adtService = this.connectionManager.activeService;
+                    const username = adtService.getConnectionInfo().username?.toUpperCase();
+                    const objects = (await adtService.getInactiveObjects())
+                        .filter(o => !o.deleted && (!username || o.user?.toUpperCase() === username));
+                    if (objects.length === 0) {
+                        vscode.window.showInformationMessage('No inactive objects to activate');
+                        return;
+                    }
+                    await this.activate(adtService, objects);
+                } catch (error) {
+                    showAdtError('Activation failed', error);
+                }
+            }),
+            vscode.commands.registerCommand('abap-tools.refreshInactiveObjects', () =>
+                this.inactiveObjectsProvider.refresh()
+            ),
+            vscode.workspace.onDidSaveTextDocument(document => this.onDidSave(document))
+        );
+    }
+
+    private async onDidSave(document: vscode.TextDocument) {
+        if (document.uri.scheme !== ADT_SCHEME) {
+            return;
+        }
+        const activateOnSave = vscode.workspace.getConfiguration('abap-tools').get<boolean>('activateOnSave', false);
+        const adtService = this.connectionManager.getServiceForUri(document.uri);
+        if (!activateOnSave || !adtService) {
+            // Saved sources are inactive until activated
+            this.inactiveObjectsProvider.refresh();
+            return;
+        }
+        try {
+            await this.activate(adtService, [AdtFileSystemProvider.objectReference(document.uri)]);
+        } catch (error) {
+            showAdtError('Activation failed', error, adtService.systemId);
+        }
+    }
+
+    private async activate(adtService: AdtService, objects: AdtObjectReference[]) {
+        const names = objects.map(o => o.name).join(', ');
+        let result: AdtActivationResult = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Window, title: `Activating ${names}` },
+            () => adtService.activateObjects(objects)
+        );
+
+        // The server asks to activate dependent inactive objects together
+        if (result.inactiveObjects.length > 0) {
+            const dependents = result.inactiveObjects.filter(o => !objects.some(p => p.uri === o.uri));
+            if (dependents.length > 0) {
+                const selection = await vscode.window.showWarningMessage(
+                    `${names} depends on inactive objects: ${dependents.map(o => o.name).join(', ')}`,
+                    'Activate All',
+                    'Cancel'
+                );
+                if (selection !== 'Activate All') {
+                    return;
+                }
+            }
+            result = await adtService.activateObjects([...objects, ...dependents]);
+        }
+
+        this.publishDiagnostics(adtService.systemId, objects, result);
+        this.inactiveObjectsProvider.refresh();
+
+        if (result.success) {
+            vscode.window.showInformationMessage(`Activated ${names}`);
+        } else {
+            const selection = await vscode.window.showErrorMessage(
+                `Activation of ${names} failed`,
+                'Show Problems'
+            );
+            if (selection === 'Show Problems') {
+                vscode.commands.executeCommand('workbench.actions.view.problems');
+            }
+        }
+    }
+
+    private publishDiagnostics(system: string, objects: AdtObjectReference[], result: AdtActivationResult) {
+        // Clear old results of the activated objects
+        const stale: vscode.Uri[] = [];
+        this.diagnostics.forEach(uri => {
+            const reference = AdtFileSystemProvider.objectReference(uri);
+            if (uri.authority === system && objects.some(o => o.uri === reference.uri)) {
+                stale.push(uri);
+            }
+        });
+        stale.forEach(uri => this.diagnostics.delete(uri));
+
+        const byUri = new Map<string, { uri: vscode.Uri; diagnostics: vscode.Diagnostic[] }>();
+        for (const message of result.messages) {
+            const href = message.href || objects[0]?.uri;
+            if (!href) {
+                continue;
+            }
+            const location = AdtFileSystemProvider.location(system, href);
+            let range = location.range;
+            if (!/start=/.test(href) && message.line) {
+                range = new vscode.Range(message.line - 1, 0, message.line - 1, 0);
+            }
+
+            const diagnostic = new vscode.Diagnostic(range, message.text, toDiagnosticSeverity(message.type));
+            diagnostic.source = 'ABAP activation';
+
+            const key = location.uri.toString();
+            const entry = byUri.get(key) || { uri: location.uri, diagnostics: [] };
+            entry.diagnostics.push(diagnostic);
+            byUri.set(key, entry);
+        }
+
+        byUri.forEach(({ uri, diagnostics }) => this.diagnostics.set(uri, diagnostics));
+    }
+
+    dispose() {
+        this.disposables.forEach(d => d.dispose());
+    }
+}
+
@@ -0,0 +1,14 @@
+import * as vscode from 'vscode';
+
+// Map ADT message types (E, W, I, A, S) to VS Code severities
+export function toDiagnosticSeverity(type: string): vscode.DiagnosticSeverity {
+    switch (type) {
+        case 'E':
+        case 'A':
+            return vscode.DiagnosticSeverity.Error;
+        case 'W':
+            return vscode.DiagnosticSeverity.Warning;
+        default:
+            return vscode.DiagnosticSeverity.Information;
+    }
+}
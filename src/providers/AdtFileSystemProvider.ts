@@ -0,0 +1,184 @@
+import * as vscode from 'vscode';
+import { AdtObjectReference, AdtService } from '../services/AdtService';
+import { AdtError } from '../services/AdtError';
+import { editorPathFor, getObjectType, isSourcePath, languageOfPath, objectTypeOfPath } from '../services/AdtObjectTypes';
+import { ConnectionManager } from '../services/ConnectionManager';
+import { TransportPicker } from '../dialogs/TransportPicker';
+
+export const ADT_SCHEME = 'adt';
+const ADT_PREFIX = '/sap/bc/adt';
+
+// Serves ABAP sources as adt://<system>/sap/bc/adt/<object>/source/main,
+// so editors are backed by the SAP system instead of untitled documents
+export class AdtFileSystemProvider implements vscode.FileSystemProvider {
+    private _onDidChangeFile = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+    readonly onDidChangeFile: vscode.Event<vscode.FileChangeEvent[]> = this._onDidChangeFile.event;
+
+    private stats = new Map<string, vscode.FileStat>();
+
+    constructor(private connectionManager: ConnectionManager) {}
+
+    // Build the editor URI for an ADT path relative to /sap/bc/adt
+    static uriFor(system: string, adtPath: string): vscode.Uri {
+        const relative = adtPath.startsWith(ADT_PREFIX) ? adtPath.substring(ADT_PREFIX.length) : adtPath;
+        return vscode.Uri.from({
+            scheme: ADT_SCHEME,
+            authority: system,
+            path: `${ADT_PREFIX}${relative.startsWith('/') ? '' : '/'}${relative}`
+        });
+    }
+
+    // ADT path (relative to /sap/bc/adt) of an adt:// URI
+    static adtPath(uri: vscode.Uri): string {
+        return uri.path.startsWith(ADT_PREFIX) ? uri.path.substring(ADT_PREFIX.length) : uri.path;
+    }
+
+    // The repository object an adt:// source belongs to
+    static objectReference(uri: vscode.Uri): AdtObjectReference {
+        const objectPath = AdtService.getObjectPath(AdtFileSystemProvider.adtPath(uri));
+        const name = decodeURIComponent(objectPath.split('/').pop() || '').toUpperCase();
+        return { uri: `${ADT_PREFIX}${objectPath}`, name };
+    }
+
+    // Editor location of an ADT link such as
+    // /sap/bc/adt/oo/classes/zcl_x/source/main#start=12,4. Object URIs open
+    // what the editor shows for their type: the main source or the metadata
+    static location(system: string, href: string, objectType?: string): vscode.Location {
+        const [path, fragment = ''] = href.split('#');
+        const relative = path.startsWith(ADT_PREFIX) ? path.substring(ADT_PREFIX.length) : path;
+        const info = getObjectType(objectType) || objectTypeOfPath(relative);
+        const sourcePath = isSourcePath(path) || !info ? path : editorPathFor(info, path);
+
+        const start = /(?:^|;)start=(\d+)(?:,(\d+))?/.exec(fragment);
+        const end = /(?:^|;)end=(\d+)(?:,(\d+))?/.exec(fragment);
+        const startPosition = start
+            ? new vscode.Position(Math.max(parseInt(start[1], 10) - 1, 0), parseInt(start[2] || '0', 10))
+            : new vscode.Position(0, 0);
+        const endPosition = end
+            ? new vscode.Position(Math.max(parseInt(end[1], 10) - 1, 0), parseInt(end[2] || '0', 10))
+            : startPosition;
+
+        return new vscode.Location(
+            AdtFileSystemProvider.uriFor(system, sourcePath),
+            new vscode.Range(startPosition, endPosition)
+        );
+    }
+
+    static async open(system: string, adtPath: string): Promise<vscode.TextEditor> {
+        const document = await vscode.workspace.openTextDocument(AdtFileSystemProvider.uriFor(system, adtPath));
+        await AdtFileSystemProvider.setLanguage(document);
+        return vscode.window.showTextDocument(document);
+    }
+
+    // adt:// documents have no file extension; the object type decides the
+    // language. CDS sources stay plain text unless a CDS extension is installed
+    static async setLanguage(document: vscode.TextDocument): Promise<void> {
+        let language: string = languageOfPath(AdtFileSystemProvider.adtPath(document.uri));
+        if (language === 'cds' && !(await vscode.languages.getLanguages()).includes('cds')) {
+            language = 'plaintext';
+        }
+        if (document.languageId !== language) {
+            await vscode.languages.setTextDocumentLanguage(document, language);
+        }
+    }
+
+    watch(): vscode.Disposable {
+        return new vscode.Disposable(() => { });
+    }
+
+    stat(uri: vscode.Uri): vscode.FileStat {
+        return this.stats.get(uri.toString()) || {
+            type: vscode.FileType.File,
+            ctime: 0,
+            mtime: Date.now(),
+            size: 0,
+            permissions: AdtFileSystemProvider.permissionsOf(uri)
+        };
+    }
+
+    readDirectory(): [string, vscode.FileType][] {
+        return [];
+    }
+
+    createDirectory(uri: vscode.Uri): void {
+        throw vscode.FileSystemError.NoPermissions(uri);
+    }
+
+    async readFile(uri: vscode.Uri): Promise<Uint8Array> {
+        const adtService = await this.getService(uri);
+        const path = AdtFileSystemProvider.adtPath(uri);
+
+        let source: string;
+        try {
+            const classMatch = /^\/oo\/classes\/([^/]+)\/(?:source\/main|includes\/(\w+))$/.exec(path);
+            const programMatch = /^\/programs\/programs\/([^/]+)\/source\/main$/.exec(path);
+            if (classMatch) {
+                source = await adtService.getClassSource(classMatch[1], classMatch[2]);
+            } else if (programMatch) {
+                source = await adtService.getProgramSource(programMatch[1]);
+            } else {
+                // Objects without source open as their XML metadata
+                source = await adtService.getObjectSource(path, isSourcePath(path) ? 'text/plain' : 'application/*');
+            }
+        } catch (error) {
+            if (error instanceof AdtError && error.kind === 'notFound') {
+                throw vscode.FileSystemError.FileNotFound(uri);
+            }
+            throw error;
+        }
+
+        const content = Buffer.from(source, 'utf8');
+        this.updateStat(uri, content.byteLength);
+        return content;
+    }
+
+    async writeFile(uri: vscode.Uri, content: Uint8Array): Promise<void> {
+        if (AdtFileSystemProvider.permissionsOf(uri)) {
+            throw vscode.FileSystemError.NoPermissions(uri);
+        }
+        const adtService = await this.getService(uri);
+        await adtService.saveObjectSource(
+            AdtFileSystemProvider.adtPath(uri),
+            Buffer.from(content).toString('utf8'),
+            TransportPicker.selector(adtService)
+        );
+
+        this.updateStat(uri, content.byteLength);
+        this._onDidChangeFile.fire([{ type: vscode.FileChangeType.Changed, uri }]);
+    }
+
+    delete(uri: vscode.Uri): void {
+        throw vscode.FileSystemError.NoPermissions(uri);
+    }
+
+    rename(oldUri: vscode.Uri): void {
+        throw vscode.FileSystemError.NoPermissions(oldUri);
+    }
+
+    private updateStat(uri: vscode.Uri, size: number) {
+        const existing = this.stats.get(uri.toString());
+        this.stats.set(uri.toString(), {
+            type: vscode.FileType.File,
+            ctime: existing?.ctime || Date.now(),
+            mtime: Date.now(),
+            size,
+            permissions: AdtFileSystemProvider.permissionsOf(uri)
+        });
+    }
+
+    // Metadata documents are shown for reference only
+    private static permissionsOf(uri: vscode.Uri): vscode.FilePermission | undefined {
+        return isSourcePath(AdtFileSystemProvider.adtPath(uri)) ? undefined : vscode.FilePermission.Readonly;
+    }
+
+    private async getService(uri: vscode.Uri): Promise<AdtService> {
+        const adtService = this.connectionManager.getServiceForUri(uri);
+        if (!adtService) {
+            throw vscode.FileSystemError.Unavailable(`Unknown SAP system: ${uri.authority}`);
+        }
+        if (!await this.connectionManager.ensureConnected(adtService.systemId)) {
+            throw vscode.FileSystemError.Unavailable(`Not connected to SAP system ${adtService.systemId}`);
+        }
+        return adtService;
+    }
+}
@@ -0,0 +1,289 @@
+import * as vscode from 'vscode';
+import { AdtAtcFinding, AdtAtcObject, AdtAtcWorklist } from '../services/AdtService';
+import { ConnectionManager } from '../services/ConnectionManager';
+import { showAdtError } from '../dialogs/AdtErrorMessage';
+import { ADT_SCHEME, AdtFileSystemProvider } from './AdtFileSystemProvider';
+import { PackageItem } from './PackageHierarchyProvider';
+import { TransportTaskItem } from './TransportsProvider';
+
+const PRIORITY_LABELS: Record<number, string> = {
+    1: 'Priority 1 (Error)',
+    2: 'Priority 2 (Warning)',
+    3: 'Priority 3 (Information)',
+    4: 'Priority 4'
+};
+
+const EXEMPTION_REASONS = [
+    { label: 'FPOS', description: 'False positive' },
+    { label: 'NFIX', description: 'No fix planned' },
+    { label: 'TOLR', description: 'Tolerated' },
+    { label: 'OTHR', description: 'Other' }
+];
+
+interface AtcFindingEntry {
+    finding: AdtAtcFinding;
+    object: AdtAtcObject;
+}
+
+export class AtcGroupItem extends vscode.TreeItem {
+    constructor(
+        label: string,
+        public readonly entries: AtcFindingEntry[],
+        public readonly level: 'priority' | 'check'
+    ) {
+        super(label, vscode.TreeItemCollapsibleState.Expanded);
+        this.description = `(${entries.length})`;
+        this.iconPath = new vscode.ThemeIcon(level === 'priority' ? 'warning' : 'checklist');
+    }
+}
+
+export class AtcFindingItem extends vscode.TreeItem {
+    constructor(
+        public readonly entry: AtcFindingEntry,
+        public readonly system: string
+    ) {
+        super(entry.finding.messageTitle || entry.finding.checkTitle, vscode.TreeItemCollapsibleState.None);
+        this.description = entry.object.name;
+        this.tooltip = `${entry.finding.checkTitle}\n${entry.object.type} ${entry.object.name}`;
+        this.iconPath = new vscode.ThemeIcon(entry.finding.priority === 1 ? 'error' : entry.finding.priority === 2 ? 'warning' : 'info');
+        this.contextValue = entry.finding.markerId ? 'atcFinding.exemptable' : 'atcFinding';
+
+        const location = AdtFileSystemProvider.location(system, entry.finding.location);
+        this.command = {
+            command: 'vscode.open',
+            title: 'Open Finding',
+            arguments: [location.uri, { selection: location.range }]
+        };
+    }
+}
+
+export class AtcProvider implements vscode.TreeDataProvider<vscode.TreeItem>, vscode.Disposable {
+    private _onDidChangeTreeData: vscode.EventEmitter<vscode.TreeItem | undefined | null | void> = new vscode.EventEmitter<vscode.TreeItem | undefined | null | void>();
+    readonly onDidChangeTreeData: vscode.Event<vscode.TreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
+
+    private diagnostics = vscode.languages.createDiagnosticCollection('abap-atc');
+    private worklist: AdtAtcWorklist | undefined;
+    private system: string | undefined;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private connectionManager: ConnectionManager) {
+        this.disposables.push(
+            this.diagnostics,
+            vscode.commands.registerCommand('abap-tools.atcSelectVariant', () => this.selectVariant()),
+            vscode.commands.registerCommand('abap-tools.runAtc', async (uri?: vscode.Uri) => {
+                const target = uri || vscode.window.activeTextEditor?.document.uri;
+                if (!target || target.scheme !== ADT_SCHEME) {
+                    vscode.window.showWarningMessage('Open an ABAP source from SAP to run ATC on it');
+                    return;
+                }
+                const adtService = this.connectionManager.getServiceForUri(target);
+                if (adtService) {
+                    const reference = AdtFileSystemProvider.objectReference(target);
+                    await this.run(adtService.systemId, [reference.uri], reference.name);
+                }
+            }),
+            vscode.commands.registerCommand('abap-tools.runAtcOnPackage', async (item?: PackageItem) => {
+                const packageName = item?.label || await vscode.window.showInputBox({
+                    prompt: 'Package to check',
+                    placeHolder: 'ZPACKAGE'
+                });
+                if (!packageName) {
+                    return;
+                }
+                await this.run(
+                    item?.system,
+                    [`/sap/bc/adt/packages/${encodeURIComponent(packageName.toLowerCase())}`],
+                    packageName
+                );
+            }),
+            vscode.commands.registerCommand('abap-tools.runAtcOnTransport', async (transport?: string | TransportTaskItem) => {
+                const request = (transport instanceof TransportTaskItem ? transport.task.number : transport)
+                    || await vscode.window.showInputBox({
+                        prompt: 'Transport request to check',
+                        placeHolder: 'DEVK900001'
+                    });
+                if (!request) {
+                    return;
+                }
+                await this.run(
+                    transport instanceof TransportTaskItem ? transport.system : undefined,
+                    [`/sap/bc/adt/cts/transportrequests/${encodeURIComponent(request.toUpperCase())}`],
+                    request.toUpperCase()
+                );
+            }),
+            vscode.commands.registerCommand('abap-tools.requestAtcExemption', (item: AtcFindingItem) =>
+                this.requestExemption(item)
+            ),
+            vscode.commands.registerCommand('abap-tools.clearAtcFindings', () => {
+                this.worklist = undefined;
+                this.diagnostics.clear();
+                this.refresh();
+            })
+        );
+    }
+
+    refresh(): void {
+        this._onDidChangeTreeData.fire();
+    }
+
+    getTreeItem(element: vscode.TreeItem): vscode.TreeItem {
+        return element;
+    }
+
+    getChildren(element?: vscode.TreeItem): vscode.TreeItem[] {
+        if (!element) {
+            const entries = this.getEntries();
+            if (!this.worklist) {
+                return [new vscode.TreeItem('Run ATC to see findings')];
+            }
+            if (entries.length === 0) {
+                return [new vscode.TreeItem('No ATC findings')];
+            }
+            return groupBy(entries, e => e.finding.priority)
+                .sort(([a], [b]) => a - b)
+                .map(([priority, group]) => new AtcGroupItem(PRIORITY_LABELS[priority] || `Priority ${priority}`, group, 'priority'));
+        }
+        if (element instanceof AtcGroupItem && element.level === 'priority') {
+            return groupBy(element.entries, e => e.finding.checkTitle)
+                .map(([checkTitle, group]) => new AtcGroupItem(checkTitle, group, 'check'));
+        }
+        if (element instanceof AtcGroupItem) {
+            return element.entries.map(entry => new AtcFindingItem(entry, this.system!));
+        }
+        return [];
+    }
+
+    private getEntries(): AtcFindingEntry[] {
+        return (this.worklist?.objects || []).flatMap(object =>
+            object.findings.map(finding => ({ finding, object }))
+        );
+    }
+
+    private async selectVariant(): Promise<string | undefined> {
+        try {
+            const adtService = this.connectionManager.activeService;
+            const variants = await adtService.getAtcCheckVariants();
+            const selected = await vscode.window.showQuickPick(
+                [
+                    { label: '$(settings) System default', description: '', name: '' },
+                    ...variants.map(v => ({ label: v.name, description: v.description, name: v.name }))
+                ],
+                { placeHolder: 'Select ATC check variant' }
+            );
+            if (!selected) {
+                return undefined;
+            }
+            await vscode.workspace.getConfiguration('abap-tools').update(
+                'atcCheckVariant',
+                selected.name,
+                vscode.ConfigurationTarget.Global
+            );
+            return selected.name;
+        } catch (error) {
+            showAdtError('Failed to load ATC check variants', error);
+            return undefined;
+        }
+    }
+
+    // Without a system the check runs on the active one
+    private async run(system: string | undefined, objectUris: string[], title: string) {
+        try {
+            const adtService = system
+                ? this.connectionManager.getService(system)
+                : this.connectionManager.activeService;
+            const variant = vscode.workspace.getConfiguration('abap-tools').get<string>('atcCheckVariant') || undefined;
+            const worklist = await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: `Running ATC on ${title}` },
+                () => adtService.runAtcCheck(objectUris, variant)
+            );
+
+            this.worklist = worklist;
+            this.system = adtService.systemId;
+            this.publishDiagnostics();
+            this.refresh();
+            vscode.commands.executeCommand('abapAtcFindings.focus');
+
+            const count = this.getEntries().length;
+            vscode.window.showInformationMessage(
+                count === 0 ? `ATC found no issues in ${title}` : `ATC found ${count} finding(s) in ${title}`
+            );
+        } catch (error) {
+            showAdtError('ATC run failed', error, system);
+        }
+    }
+
+    private publishDiagnostics() {
+        this.diagnostics.clear();
+        const byUri = new Map<string, { uri: vscode.Uri; diagnostics: vscode.Diagnostic[] }>();
+
+        for (const { finding } of this.getEntries()) {
+            const location = AdtFileSystemProvider.location(this.system!, finding.location);
+            const diagnostic = new vscode.Diagnostic(
+                location.range,
+                `${finding.messageTitle} (${finding.checkTitle})`,
+                finding.priority === 1
+                    ? vscode.DiagnosticSeverity.Error
+                    : finding.priority === 2
+                        ? vscode.DiagnosticSeverity.Warning
+                        : vscode.DiagnosticSeverity.Information
+            );
+            diagnostic.source = 'ATC';
+            diagnostic.code = finding.checkId;
+
+            const key = location.uri.toString();
+            const entry = byUri.get(key) || { uri: location.uri, diagnostics: [] };
+            entry.diagnostics.push(diagnostic);
+            byUri.set(key, entry);
+        }
+
+        byUri.forEach(({ uri, diagnostics }) => this.diagnostics.set(uri, diagnostics));
+    }
+
+    private async requestExemption(item: AtcFindingItem) {
+        const reason = await vscode.window.showQuickPick(EXEMPTION_REASONS, {
+            placeHolder: 'Reason for the exemption'
+        });
+        if (!reason) {
+            return;
+        }
+        const justification = await vscode.window.showInputBox({
+            prompt: 'Justification',
+            validateInput: value => value.trim() ? undefined : 'A justification is required'
+        });
+        if (!justification) {
+            return;
+        }
+        const approver = await vscode.window.showInputBox({
+            prompt: 'Approver (SAP user)',
+            validateInput: value => value.trim() ? undefined : 'An approver is required'
+        });
+        if (!approver) {
+            return;
+        }
+
+        try {
+            const adtService = this.connectionManager.getService(item.system);
+            const message = await adtService.requestAtcExemption(item.entry.finding, {
+                reason: reason.label,
+                justification,
+                approver: approver.toUpperCase()
+            });
+            vscode.window.showInformationMessage(message);
+        } catch (error) {
+            showAdtError('Failed to request exemption', error, item.system);
+        }
+    }
+
+    dispose() {
+        this.disposables.forEach(d => d.dispose());
+    }
+}
+
+function groupBy<K, T>(items: T[], key: (item: T) => K): [K, T[]][] {
+    const groups = new Map<K, T[]>();
+    for (const item of items) {
+        const k = key(item);
+        groups.set(k, [...(groups.get(k) || []), item]);
+    }
+    return Array.from(groups);
+}
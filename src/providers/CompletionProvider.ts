@@ -0,0 +1,151 @@
+import * as vscode from 'vscode';
+import { AdtCompletionKind, completionKindOf } from '../services/AdtCompletionKinds';
+import { ConnectionManager } from '../services/ConnectionManager';
+import { ADT_SCHEME, AdtFileSystemProvider } from './AdtFileSystemProvider';
+
+// Offered when the source is not from a connected system
+const KEYWORDS = [
+    'REPORT', 'DATA', 'TYPES', 'CLASS', 'METHOD', 'ENDCLASS', 'ENDMETHOD',
+    'IF', 'ELSE', 'ENDIF', 'LOOP', 'ENDLOOP', 'DO', 'ENDDO', 'WHILE', 'ENDWHILE',
+    'SELECT', 'FROM', 'WHERE', 'INTO', 'TABLE', 'APPEND', 'MODIFY', 'DELETE',
+    'FORM', 'ENDFORM', 'PERFORM', 'WRITE', 'CLEAR', 'REFRESH', 'SORT'
+];
+
+const ITEM_KINDS: Record<AdtCompletionKind, vscode.CompletionItemKind> = {
+    keyword: vscode.CompletionItemKind.Keyword,
+    variable: vscode.CompletionItemKind.Variable,
+    constant: vscode.CompletionItemKind.Constant,
+    parameter: vscode.CompletionItemKind.Variable,
+    field: vscode.CompletionItemKind.Field,
+    method: vscode.CompletionItemKind.Method,
+    event: vscode.CompletionItemKind.Event,
+    function: vscode.CompletionItemKind.Function,
+    type: vscode.CompletionItemKind.Struct,
+    class: vscode.CompletionItemKind.Class,
+    interface: vscode.CompletionItemKind.Interface,
+    other: vscode.CompletionItemKind.Text
+};
+
+const INSERT_PATTERN_COMMAND = 'abap-tools.insertCompletionPattern';
+
+// Where a completion was requested, needed to fetch the full pattern later
+interface CompletionContext {
+    uri: vscode.Uri;
+    source: string;
+    position: vscode.Position;
+}
+
+// Context aware completion from the ADT code completion service. Accepting
+// a proposal asks the server for its full pattern, so methods and function
+// modules are inserted with their parameters
+export class AbapCompletionProvider implements vscode.CompletionItemProvider, vscode.Disposable {
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private connectionManager: ConnectionManager) {
+        this.disposables.push(
+            vscode.languages.registerCompletionItemProvider('abap', this, '-', '>', '~'),
+            vscode.commands.registerCommand(INSERT_PATTERN_COMMAND, (context: CompletionContext, identifier: string, start: vscode.Position) =>
+                this.insertPattern(context, identifier, start)
+            )
+        );
+    }
+
+    async provideCompletionItems(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        token: vscode.CancellationToken
+    ): Promise<vscode.CompletionItem[]> {
+        const adtService = document.uri.scheme === ADT_SCHEME
+            ? this.connectionManager.getServiceForDocument(document)
+            : undefined;
+        if (!adtService || !adtService.getConnectionInfo().isConnected) {
+            return keywordItems();
+        }
+
+        try {
+            const source = document.getText();
+            const proposals = await adtService.getCompletionProposals(
+                AdtFileSystemProvider.adtPath(document.uri),
+                source,
+                position.line + 1,
+                position.character
+            );
+            if (token.isCancellationRequested) {
+                return [];
+            }
+
+            const context: CompletionContext = { uri: document.uri, source, position };
+            return proposals
+                .filter(proposal => !proposal.isMeta)
+                .map((proposal, index) => {
+                    const start = position.translate(0, -Math.min(proposal.prefixLength, position.character));
+                    const item = new vscode.CompletionItem(proposal.identifier, itemKindOf(proposal.kind, proposal.identifier));
+                    item.range = new vscode.Range(start, position);
+                    // Keep the server's ranking
+                    item.sortText = String(index).padStart(5, '0');
+                    item.command = {
+                        command: INSERT_PATTERN_COMMAND,
+                        title: 'Insert Full Pattern',
+                        arguments: [context, proposal.identifier, start]
+                    };
+                    return item;
+                });
+        } catch (error) {
+            console.error('Code completion failed:', error);
+            return keywordItems();
+        }
+    }
+
+    // Replace an accepted identifier by its full pattern, e.g. a method call
+    // with its parameters, when the server has one
+    private async insertPattern(context: CompletionContext, identifier: string, start: vscode.Position) {
+        const editor = vscode.window.activeTextEditor;
+        const adtService = this.connectionManager.getServiceForUri(context.uri);
+        if (!editor || editor.document.uri.toString() !== context.uri.toString() || !adtService) {
+            return;
+        }
+
+        try {
+            const pattern = await adtService.getCompletionInsertion(
+                AdtFileSystemProvider.adtPath(context.uri),
+                context.source,
+                context.position.line + 1,
+                context.position.character,
+                identifier
+            );
+            // Plain names have nothing to add
+            if (!pattern.trim() || !/[(\n]/.test(pattern)) {
+                return;
+            }
+
+            const inserted = new vscode.Range(start, start.translate(0, identifier.length));
+            if (editor.document.getText(inserted).toUpperCase() !== identifier.toUpperCase()) {
+                return;
+            }
+            const indent = ' '.repeat(start.character);
+            const text = pattern.trimEnd().split(/\r?\n/).map((line, i) => i === 0 ? line : indent + line).join('\n');
+            await editor.edit(builder => builder.replace(inserted, text));
+        } catch (error) {
+            console.error('Failed to insert completion pattern:', error);
+        }
+    }
+
+    dispose() {
+        this.disposables.forEach(d => d.dispose());
+    }
+}
+
+// Unknown kinds fall back to the keyword list
+function itemKindOf(kind: number, identifier: string): vscode.CompletionItemKind {
+    const adtKind = completionKindOf(kind);
+    if (adtKind === 'other') {
+        return KEYWORDS.includes(identifier.toUpperCase())
+            ? vscode.CompletionItemKind.Keyword
+            : vscode.CompletionItemKind.Variable;
+    }
+    return ITEM_KINDS[adtKind];
+}
+
+function keywordItems(): vscode.CompletionItem[] {
+    return KEYWORDS.map(keyword => new vscode.CompletionItem(keyword, vscode.CompletionItemKind.Keyword));
+}
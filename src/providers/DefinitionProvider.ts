@@ -0,0 +1,65 @@
+import * as vscode from 'vscode';
+import { ConnectionManager } from '../services/ConnectionManager';
+import { ADT_SCHEME, AdtFileSystemProvider } from './AdtFileSystemProvider';
+
+// ABAP names may contain namespaces (/ABC/) and interface components (~)
+const IDENTIFIER = /[\w\/~]+/;
+
+// Go to Definition / Implementation through the ADT navigation service. The
+// unsaved editor content is sent along, so positions match what is shown
+export class AdtDefinitionProvider implements vscode.DefinitionProvider, vscode.ImplementationProvider, vscode.Disposable {
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private connectionManager: ConnectionManager) {
+        const selector: vscode.DocumentSelector = { scheme: ADT_SCHEME };
+        this.disposables.push(
+            vscode.languages.registerDefinitionProvider(selector, this),
+            vscode.languages.registerImplementationProvider(selector, this)
+        );
+    }
+
+    provideDefinition(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken) {
+        return this.navigate(document, position, token, false);
+    }
+
+    provideImplementation(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken) {
+        return this.navigate(document, position, token, true);
+    }
+
+    private async navigate(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        token: vscode.CancellationToken,
+        implementation: boolean
+    ): Promise<vscode.Location | undefined> {
+        const adtService = this.connectionManager.getServiceForDocument(document);
+        const range = document.getWordRangeAtPosition(position, IDENTIFIER);
+        if (!adtService || !range || !adtService.getConnectionInfo().isConnected) {
+            return undefined;
+        }
+
+        try {
+            const target = await adtService.findDefinition(
+                AdtFileSystemProvider.adtPath(document.uri),
+                document.getText(),
+                range.start.line + 1,
+                range.start.character,
+                range.end.character,
+                implementation
+            );
+            if (!target || token.isCancellationRequested) {
+                return undefined;
+            }
+            // Local classes and includes resolve to other sources of the same
+            // object; links without a source path open the main source
+            return AdtFileSystemProvider.location(adtService.systemId, target.uri);
+        } catch (error) {
+            console.error('Navigation failed:', error);
+            return undefined;
+        }
+    }
+
+    dispose() {
+        this.disposables.forEach(d => d.dispose());
+    }
+}
@@ -0,0 +1,71 @@
+import * as vscode from 'vscode';
+import { AdtPrettyPrinterSettings } from '../services/AdtService';
+import { AbapFormatOptions, formatAbap, KeywordCase } from '../services/AbapFormatter';
+import { ConnectionManager } from '../services/ConnectionManager';
+import { ADT_SCHEME } from './AdtFileSystemProvider';
+
+// Formats with the ADT pretty printer, or locally with the last settings
+// read from the system when it is not reachable
+export class AbapFormattingProvider implements vscode.DocumentFormattingEditProvider, vscode.Disposable {
+    private settings = new Map<string, AdtPrettyPrinterSettings>();
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private connectionManager: ConnectionManager) {
+        this.disposables.push(vscode.languages.registerDocumentFormattingEditProvider('abap', this));
+    }
+
+    async provideDocumentFormattingEdits(
+        document: vscode.TextDocument,
+        _options: vscode.FormattingOptions,
+        token: vscode.CancellationToken
+    ): Promise<vscode.TextEdit[]> {
+        const source = document.getText();
+        const adtService = document.uri.scheme === ADT_SCHEME
+            ? this.connectionManager.getServiceForDocument(document)
+            : this.connectionManager.hasActiveService() ? this.connectionManager.activeService : undefined;
+
+        let formatted: string | undefined;
+        if (adtService?.getConnectionInfo().isConnected) {
+            // Older systems have no settings endpoint; their pretty printer
+            // still works, and local formatting uses the defaults
+            if (!this.settings.has(adtService.systemId)) {
+                try {
+                    this.settings.set(adtService.systemId, await adtService.getPrettyPrinterSettings());
+                } catch (error) {
+                    console.error('Failed to read pretty printer settings, using defaults:', error);
+                    this.settings.set(adtService.systemId, DEFAULT_SETTINGS);
+                }
+            }
+            try {
+                formatted = await adtService.prettyPrint(source);
+            } catch (error) {
+                console.error('Pretty printer failed, formatting locally:', error);
+            }
+        }
+        if (formatted === undefined) {
+            formatted = formatAbap(source, toFormatOptions(adtService && this.settings.get(adtService.systemId)));
+        }
+
+        if (token.isCancellationRequested || !formatted || formatted === source) {
+            return [];
+        }
+        const fullRange = new vscode.Range(document.positionAt(0), document.positionAt(source.length));
+        return [vscode.TextEdit.replace(fullRange, formatted)];
+    }
+
+    dispose() {
+        this.disposables.forEach(d => d.dispose());
+    }
+}
+
+const DEFAULT_SETTINGS: AdtPrettyPrinterSettings = { indentation: true, style: 'keywordUpper' };
+
+function toFormatOptions(settings?: AdtPrettyPrinterSettings): Partial<AbapFormatOptions> {
+    if (!settings) {
+        return {};
+    }
+    const keywordCase: KeywordCase = /upper/i.test(settings.style)
+        ? 'upper'
+        : /lower/i.test(settings.style) ? 'lower' : 'keep';
+    return { keywordCase, indentation: settings.indentation };
+}
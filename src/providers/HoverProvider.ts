@@ -0,0 +1,138 @@
+import * as vscode from 'vscode';
+import { AdtElementInfo } from '../services/AdtService';
+import { ConnectionManager } from '../services/ConnectionManager';
+import { ADT_SCHEME, AdtFileSystemProvider } from './AdtFileSystemProvider';
+
+// ABAP names may contain namespaces (/ABC/) and interface components (~)
+const IDENTIFIER = /[\w\/~]+/;
+
+// Offered when the source is not from a connected system
+const KEYWORD_HOVERS: Record<string, string> = {
+    'REPORT': 'Defines an ABAP program',
+    'DATA': 'Declares a local variable',
+    'TYPES': 'Defines a local data type',
+    'CLASS': 'Defines a local class',
+    'METHOD': 'Defines a method in a class'
+};
+
+const TYPE_LABELS: Record<string, string> = {
+    'CLAS/OC': 'Class',
+    'CLAS/OM': 'Method',
+    'CLAS/OA': 'Attribute',
+    'CLAS/OT': 'Type',
+    'CLAS/OE': 'Event',
+    'INTF/OI': 'Interface',
+    'INTF/IM': 'Interface Method',
+    'INTF/IA': 'Interface Attribute',
+    'PROG/P': 'Program',
+    'FUNC/FF': 'Function Module',
+    'TABL/DT': 'Database Table',
+    'TABL/DS': 'Structure',
+    'DTEL/DE': 'Data Element',
+    'DOMA/DD': 'Domain',
+    'TTYP/DA': 'Table Type',
+    'DDLS/DF': 'CDS View'
+};
+
+// Element info hovers: declaration, signature, ABAP Doc and DDIC details
+export class AbapHoverProvider implements vscode.HoverProvider, vscode.Disposable {
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private connectionManager: ConnectionManager) {
+        this.disposables.push(vscode.languages.registerHoverProvider('abap', this));
+    }
+
+    async provideHover(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        token: vscode.CancellationToken
+    ): Promise<vscode.Hover | undefined> {
+        const range = document.getWordRangeAtPosition(position, IDENTIFIER);
+        if (!range) {
+            return undefined;
+        }
+
+        const adtService = document.uri.scheme === ADT_SCHEME
+            ? this.connectionManager.getServiceForDocument(document)
+            : undefined;
+        if (!adtService || !adtService.getConnectionInfo().isConnected) {
+            const text = KEYWORD_HOVERS[document.getText(range).toUpperCase()];
+            return text ? new vscode.Hover(text, range) : undefined;
+        }
+
+        try {
+            const info = await adtService.getElementInfo(
+                AdtFileSystemProvider.adtPath(document.uri),
+                document.getText(),
+                range.start.line + 1,
+                range.start.character
+            );
+            if (!info || !info.name || token.isCancellationRequested) {
+                return undefined;
+            }
+            return new vscode.Hover(renderElementInfo(info, adtService.systemId), range);
+        } catch (error) {
+            console.error('Element info failed:', error);
+            return undefined;
+        }
+    }
+
+    dispose() {
+        this.disposables.forEach(d => d.dispose());
+    }
+}
+
+function renderElementInfo(info: AdtElementInfo, system: string): vscode.MarkdownString {
+    const markdown = new vscode.MarkdownString();
+    markdown.isTrusted = false;
+
+    const name = info.href
+        ? `[${escapeMarkdown(info.name)}](${AdtFileSystemProvider.location(system, info.href).uri.toString()})`
+        : escapeMarkdown(info.name);
+    markdown.appendMarkdown(`**${name}** · ${typeLabel(info.type)}\n\n`);
+
+    // Method signatures, exceptions and structure fields
+    if (info.components.length > 0) {
+        markdown.appendCodeblock(info.components.map(component => {
+            const details = component.properties.map(p => p.value).filter(Boolean).join(' ');
+            return `${component.name.padEnd(30)} ${typeLabel(component.type)}${details ? `  ${details}` : ''}`;
+        }).join('\n'), 'abap');
+    }
+
+    // DDIC attributes such as domain, length or description
+    if (info.properties.length > 0) {
+        markdown.appendMarkdown('\n| | |\n|---|---|\n');
+        for (const property of info.properties) {
+            markdown.appendMarkdown(`| ${escapeMarkdown(property.key)} | ${escapeMarkdown(property.value)} |\n`);
+        }
+    }
+
+    if (info.documentation) {
+        markdown.appendMarkdown(`\n---\n\n${htmlToMarkdown(info.documentation)}`);
+    }
+    return markdown;
+}
+
+function typeLabel(type: string): string {
+    return TYPE_LABELS[type] || TYPE_LABELS[type.split('/').slice(0, 2).join('/')] || type;
+}
+
+// ABAP Doc comes as simple HTML
+function htmlToMarkdown(html: string): string {
+    return html
+        .replace(/<br\s*\/?>/gi, '\n\n')
+        .replace(/<\/p>/gi, '\n\n')
+        .replace(/<\/?(strong|b)>/gi, '**')
+        .replace(/<\/?(em|i)>/gi, '_')
+        .replace(/<\/?code>/gi, '`')
+        .replace(/<[^>]+>/g, '')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&amp;/g, '&')
+        .trim();
+}
+
+function escapeMarkdown(text: string): string {
+    return text.replace(/[\\`*_{}[\]()#+\-.!|]/g, '\\$&');
+}
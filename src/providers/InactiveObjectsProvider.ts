@@ -0,0 +1,59 @@
+import * as vscode from 'vscode';
+import { AdtInactiveObject } from '../services/AdtService';
+import { ConnectionManager } from '../services/ConnectionManager';
+import { AdtFileSystemProvider } from './AdtFileSystemProvider';
+
+export class InactiveObjectItem extends vscode.TreeItem {
+    constructor(
+        public readonly object: AdtInactiveObject,
+        public readonly system: string
+    ) {
+        super(object.name, vscode.TreeItemCollapsibleState.None);
+        this.description = [object.type, object.user, object.transport].filter(Boolean).join(' · ');
+        this.tooltip = object.uri;
+        this.iconPath = new vscode.ThemeIcon(object.deleted ? 'trash' : 'circle-outline');
+        this.contextValue = 'inactiveObject';
+        this.command = {
+            command: 'vscode.open',
+            title: 'Open Source',
+            arguments: [AdtFileSystemProvider.location(system, object.uri, object.type).uri]
+        };
+    }
+}
+
+export class InactiveObjectsProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
+    private _onDidChangeTreeData: vscode.EventEmitter<vscode.TreeItem | undefined | null | void> = new vscode.EventEmitter<vscode.TreeItem | undefined | null | void>();
+    readonly onDidChangeTreeData: vscode.Event<vscode.TreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
+
+    constructor(private connectionManager: ConnectionManager) {}
+
+    refresh(): void {
+        this._onDidChangeTreeData.fire();
+    }
+
+    getTreeItem(element: vscode.TreeItem): vscode.TreeItem {
+        return element;
+    }
+
+    async getChildren(element?: vscode.TreeItem): Promise<vscode.TreeItem[]> {
+        if (element || !this.connectionManager.hasActiveService()) {
+            return [];
+        }
+
+        const adtService = this.connectionManager.activeService;
+        if (!adtService.getConnectionInfo().isConnected) {
+            return [new vscode.TreeItem(`Not connected to SAP (${adtService.systemId})`)];
+        }
+
+        try {
+            const objects = await adtService.getInactiveObjects();
+            if (objects.length === 0) {
+                return [new vscode.TreeItem('No inactive objects')];
+            }
+            return objects.map(object => new InactiveObjectItem(object, adtService.systemId));
+        } catch (error) {
+            console.error('Failed to load inactive objects:', error);
+            return [new vscode.TreeItem('Error loading inactive objects')];
+        }
+    }
+}
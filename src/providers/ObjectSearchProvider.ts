@@ -0,0 +1,187 @@
+import * as vscode from 'vscode';
+import { AdtSearchResult, AdtService } from '../services/AdtService';
+import { ConnectionManager } from '../services/ConnectionManager';
+import { AdtFileSystemProvider } from './AdtFileSystemProvider';
+
+const OBJECT_TYPES = [
+    { label: 'CLAS', description: 'Class' },
+    { label: 'INTF', description: 'Interface' },
+    { label: 'PROG', description: 'Program' },
+    { label: 'FUGR', description: 'Function Group' },
+    { label: 'DDLS', description: 'CDS Data Definition' },
+    { label: 'TABL', description: 'Table / Structure' },
+    { label: 'DTEL', description: 'Data Element' },
+    { label: 'DEVC', description: 'Package' }
+];
+
+const SYMBOL_KINDS: Record<string, vscode.SymbolKind> = {
+    CLAS: vscode.SymbolKind.Class,
+    INTF: vscode.SymbolKind.Interface,
+    PROG: vscode.SymbolKind.File,
+    FUGR: vscode.SymbolKind.Module,
+    FUNC: vscode.SymbolKind.Function,
+    DDLS: vscode.SymbolKind.Struct,
+    TABL: vscode.SymbolKind.Struct,
+    DTEL: vscode.SymbolKind.TypeParameter,
+    DEVC: vscode.SymbolKind.Package
+};
+
+interface SearchPickItem extends vscode.QuickPickItem {
+    result?: AdtSearchResult;
+}
+
+// "ABAP: Search Object" quick pick and workspace symbols backed by the
+// repository information system quick search
+export class ObjectSearchProvider implements vscode.WorkspaceSymbolProvider, vscode.Disposable {
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private connectionManager: ConnectionManager) {
+        this.disposables.push(
+            vscode.commands.registerCommand('abap-tools.searchObject', () => this.search()),
+            vscode.languages.registerWorkspaceSymbolProvider(this)
+        );
+    }
+
+    async provideWorkspaceSymbols(query: string, token: vscode.CancellationToken): Promise<vscode.SymbolInformation[]> {
+        const adtService = this.getConnectedService();
+        if (!adtService || query.trim().length < 2) {
+            return [];
+        }
+        try {
+            const results = await adtService.searchObjects(query);
+            if (token.isCancellationRequested) {
+                return [];
+            }
+            return results.map(result => new vscode.SymbolInformation(
+                result.name,
+                SYMBOL_KINDS[mainType(result.type)] ?? vscode.SymbolKind.Object,
+                result.packageName || '',
+                AdtFileSystemProvider.location(adtService.systemId, result.uri, result.type)
+            ));
+        } catch (error) {
+            console.error('Object search failed:', error);
+            return [];
+        }
+    }
+
+    private async search() {
+        const adtService = this.getConnectedService();
+        if (!adtService) {
+            vscode.window.showWarningMessage('Connect to an SAP system to search objects');
+            return;
+        }
+
+        const filterButton: vscode.QuickInputButton = {
+            iconPath: new vscode.ThemeIcon('filter'),
+            tooltip: 'Filter by object type'
+        };
+        const quickPick = vscode.window.createQuickPick<SearchPickItem>();
+        quickPick.placeholder = 'Object name, wildcards * and ? allowed (e.g. ZCL_*ORDER*)';
+        quickPick.buttons = [filterButton];
+        quickPick.matchOnDescription = true;
+        quickPick.matchOnDetail = true;
+
+        let objectType: string | undefined;
+        let timer: NodeJS.Timeout | undefined;
+        let generation = 0;
+        let choosingType = false;
+        const updateTitle = () => {
+            quickPick.title = `Search ABAP Object in ${adtService.systemId}${objectType ? ` (${objectType})` : ''}`;
+        };
+
+        // Debounced server search; results of older queries are dropped
+        const runSearch = () => {
+            if (timer) {
+                clearTimeout(timer);
+            }
+            const query = quickPick.value.trim();
+            if (!query) {
+                quickPick.items = [];
+                return;
+            }
+            timer = setTimeout(async () => {
+                const current = ++generation;
+                quickPick.busy = true;
+                try {
+                    const results = await adtService.searchObjects(query, objectType);
+                    if (current === generation) {
+                        quickPick.items = results.map(result => ({
+                            label: result.name,
+                            description: [result.type, result.packageName].filter(Boolean).join(' · '),
+                            detail: result.description,
+                            // Keep server results visible even when the filter text has wildcards
+                            alwaysShow: true,
+                            result
+                        }));
+                    }
+                } catch (error) {
+                    if (current === generation) {
+                        quickPick.items = [{ label: `Search failed: ${error}`, alwaysShow: true }];
+                    }
+                } finally {
+                    if (current === generation) {
+                        quickPick.busy = false;
+                    }
+                }
+            }, 300);
+        };
+
+        updateTitle();
+        quickPick.onDidChangeValue(runSearch);
+        quickPick.onDidTriggerButton(async () => {
+            // The type picker replaces the search while it is open
+            choosingType = true;
+            const selected = await vscode.window.showQuickPick(
+                [{ label: '$(clear-all) All types', description: '', type: undefined as string | undefined },
+                    ...OBJECT_TYPES.map(t => ({ ...t, type: t.label as string | undefined }))],
+                { placeHolder: 'Object type' }
+            );
+            if (selected) {
+                objectType = selected.type;
+                updateTitle();
+            }
+            choosingType = false;
+            quickPick.show();
+            runSearch();
+        });
+        quickPick.onDidAccept(async () => {
+            const result = quickPick.selectedItems[0]?.result;
+            if (!result) {
+                return;
+            }
+            quickPick.hide();
+            try {
+                const location = AdtFileSystemProvider.location(adtService.systemId, result.uri, result.type);
+                await AdtFileSystemProvider.open(adtService.systemId, AdtFileSystemProvider.adtPath(location.uri));
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to open ${result.name}: ${error}`);
+            }
+        });
+        quickPick.onDidHide(() => {
+            if (timer) {
+                clearTimeout(timer);
+            }
+            if (!choosingType) {
+                quickPick.dispose();
+            }
+        });
+        quickPick.show();
+    }
+
+    private getConnectedService(): AdtService | undefined {
+        if (!this.connectionManager.hasActiveService()) {
+            return undefined;
+        }
+        const adtService = this.connectionManager.activeService;
+        return adtService.getConnectionInfo().isConnected ? adtService : undefined;
+    }
+
+    dispose() {
+        this.disposables.forEach(d => d.dispose());
+    }
+}
+
+// CLAS/OC -> CLAS
+function mainType(type: string): string {
+    return (type || '').split('/')[0];
+}
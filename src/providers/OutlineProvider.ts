@@ -0,0 +1,68 @@
+import * as vscode from 'vscode';
+import { AbapPosition, AbapSymbol, AbapSymbolKind, parseAbap } from '../services/AbapParser';
+
+const SYMBOL_KINDS: Record<AbapSymbolKind, vscode.SymbolKind> = {
+    class: vscode.SymbolKind.Class,
+    interface: vscode.SymbolKind.Interface,
+    section: vscode.SymbolKind.Namespace,
+    method: vscode.SymbolKind.Method,
+    form: vscode.SymbolKind.Function,
+    module: vscode.SymbolKind.Module,
+    function: vscode.SymbolKind.Function,
+    event: vscode.SymbolKind.Event,
+    data: vscode.SymbolKind.Field,
+    constant: vscode.SymbolKind.Constant,
+    type: vscode.SymbolKind.Struct,
+    classEvent: vscode.SymbolKind.Event,
+    parameter: vscode.SymbolKind.Variable
+};
+
+// Outline, breadcrumbs and folding from the offline parser; works for local
+// .abap files and adt:// sources alike, without a connection
+export class AbapOutlineProvider implements vscode.DocumentSymbolProvider, vscode.FoldingRangeProvider, vscode.Disposable {
+    private disposables: vscode.Disposable[] = [];
+
+    constructor() {
+        this.disposables.push(
+            vscode.languages.registerDocumentSymbolProvider('abap', this),
+            vscode.languages.registerFoldingRangeProvider('abap', this)
+        );
+    }
+
+    provideDocumentSymbols(document: vscode.TextDocument): vscode.DocumentSymbol[] {
+        return parseAbap(document.getText()).symbols.map(symbol => toDocumentSymbol(document, symbol));
+    }
+
+    provideFoldingRanges(document: vscode.TextDocument): vscode.FoldingRange[] {
+        return parseAbap(document.getText()).foldingRanges.map(range => new vscode.FoldingRange(
+            range.startLine,
+            range.endLine,
+            range.kind === 'comment' ? vscode.FoldingRangeKind.Comment : undefined
+        ));
+    }
+
+    dispose() {
+        this.disposables.forEach(d => d.dispose());
+    }
+}
+
+function toDocumentSymbol(document: vscode.TextDocument, symbol: AbapSymbol): vscode.DocumentSymbol {
+    const range = new vscode.Range(toPosition(symbol.start), toPosition(symbol.end).translate(0, 1));
+    const selectionStart = toPosition(symbol.selection);
+    const selection = range.contains(selectionStart)
+        ? new vscode.Range(selectionStart, selectionStart.translate(0, symbol.name.length))
+        : range;
+    const documentSymbol = new vscode.DocumentSymbol(
+        symbol.name,
+        symbol.detail || '',
+        SYMBOL_KINDS[symbol.kind],
+        document.validateRange(range),
+        document.validateRange(selection.intersection(range) || range)
+    );
+    documentSymbol.children = symbol.children.map(child => toDocumentSymbol(document, child));
+    return documentSymbol;
+}
+
+function toPosition(position: AbapPosition): vscode.Position {
+    return new vscode.Position(position.line, position.column);
+}
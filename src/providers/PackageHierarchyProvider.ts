@@ -1,19 +1,29 @@
 import * as vscode from 'vscode';
-import { AdtService } from '../services/AdtService';
+import { AdtService, AdtStructureElement, AdtStructureElementKind } from '../services/AdtService';
+import { ConnectionManager } from '../services/ConnectionManager';
 import { CreateClassDialog } from '../dialogs/CreateClassDialog';
+import { NewObjectWizard } from '../dialogs/NewObjectWizard';
+import { showAdtError } from '../dialogs/AdtErrorMessage';
+import { TransportPicker } from '../dialogs/TransportPicker';
+import { AdtObjectTypeInfo, editorPathFor, getObjectType, objectPathFor } from '../services/AdtObjectTypes';
+import { AdtFileSystemProvider } from './AdtFileSystemProvider';
 
 export class PackageItem extends vscode.TreeItem {
     constructor(
         public readonly label: string,
         public readonly collapsibleState: vscode.TreeItemCollapsibleState,
         public readonly packageUri?: string,
-        public readonly type: 'package' | 'virtualFolder' | 'class' = 'package',
+        public readonly type: 'package' | 'virtualFolder' | 'class' | 'classSection' | 'classMember' | 'loadMore' = 'package',
         public readonly counter?: number,
         public readonly facet?: string,
         public readonly whatisclicked?: string,
         public readonly hasChildrenOfSameFacet?: string,
         public readonly parent?: PackageItem,
-        public readonly vituri?: string
+        public readonly vituri?: string,
+        public readonly system?: string,
+        // ADT type and URI of object leaves, e.g. FUGR/FF
+        public readonly objectType?: string,
+        public readonly objectUri?: string
     ) {
         super(label, collapsibleState);
         this.tooltip = this.label;
@@ -24,6 +34,11 @@ export class PackageItem extends vscode.TreeItem {
                 this.iconPath = new vscode.ThemeIcon('package');
                 break;
             case 'virtualFolder':
+                if (getObjectType(objectType)) {
+                    this.iconPath = new vscode.ThemeIcon(getObjectType(objectType)!.icon);
+                    this.tooltip = `${getObjectType(objectType)!.label} ${label}`;
+                    break;
+                }
                 switch (facet) {
                     case 'CLAS':
                         this.iconPath = new vscode.ThemeIcon('symbol-class');
@@ -82,17 +97,177 @@ export class PackageItem extends vscode.TreeItem {
             case 'class':
                 this.iconPath = new vscode.ThemeIcon('symbol-class');
                 break;
+            case 'classSection':
+                this.iconPath = new vscode.ThemeIcon('symbol-namespace');
+                break;
         }
         
         this.contextValue = type;
     }
 }
 
+// Last entry of a folder with more children than one page
+export class LoadMoreItem extends PackageItem {
+    constructor(owner: PackageItem | undefined, remaining: number) {
+        super(
+            'Load more…',
+            vscode.TreeItemCollapsibleState.None,
+            undefined,
+            'loadMore',
+            undefined,
+            undefined,
+            undefined,
+            undefined,
+            owner,
+            undefined,
+            owner?.system
+        );
+        this.description = `${remaining} more`;
+        this.iconPath = new vscode.ThemeIcon('ellipsis');
+        this.command = {
+            command: 'abap-tools.loadMorePackageItems',
+            title: 'Load More',
+            arguments: [owner]
+        };
+    }
+}
+
+const MEMBER_ICONS: Record<AdtStructureElementKind, string> = {
+    method: 'symbol-method',
+    attribute: 'symbol-field',
+    event: 'symbol-event',
+    type: 'symbol-structure',
+    alias: 'symbol-reference',
+    interface: 'symbol-interface',
+    class: 'symbol-class',
+    other: 'symbol-misc'
+};
+
+// Public/protected/private section or the test classes of a class
+export class ClassSectionItem extends PackageItem {
+    constructor(label: string, public readonly elements: AdtStructureElement[], parent: PackageItem, system?: string) {
+        super(
+            label,
+            elements.length ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None,
+            parent.packageUri,
+            'classSection',
+            elements.length,
+            undefined,
+            undefined,
+            undefined,
+            parent,
+            undefined,
+            system
+        );
+        this.description = `(${elements.length})`;
+    }
+}
+
+const INCLUDE_LABELS: Record<string, string> = {
+    definitions: 'Class-relevant Local Types',
+    implementations: 'Local Types',
+    macros: 'Macros',
+    testclasses: 'Test Classes'
+};
+
+// Include of a class. The test classes include lists the local test
+// classes and offers to create the include while it doesn't exist
+export class ClassIncludeItem extends ClassSectionItem {
+    constructor(
+        public readonly includeType: string,
+        public readonly classPath: string,
+        public readonly sourcePath: string | undefined,
+        elements: AdtStructureElement[],
+        parent: PackageItem,
+        system?: string
+    ) {
+        super(INCLUDE_LABELS[includeType] || includeType, elements, parent, system);
+        this.iconPath = new vscode.ThemeIcon('file-code');
+        if (!sourcePath) {
+            this.description = '(not created)';
+        } else if (!elements.length) {
+            this.description = undefined;
+        }
+        this.contextValue = sourcePath ? 'classInclude' : 'classIncludeMissing';
+        if (sourcePath && system) {
+            this.command = {
+                command: 'vscode.open',
+                title: 'Open Include',
+                arguments: [AdtFileSystemProvider.uriFor(system, sourcePath)]
+            };
+        } else if (!sourcePath) {
+            this.command = {
+                command: 'abap-tools.createTestClassInclude',
+                title: 'Create Test Classes Include',
+                arguments: [this]
+            };
+        }
+    }
+}
+
+// Method, attribute, event... of a class; opens the source at its definition
+export class ClassMemberItem extends PackageItem {
+    constructor(public readonly element: AdtStructureElement, parent: PackageItem, system?: string) {
+        super(
+            element.name,
+            element.children.length ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None,
+            parent.packageUri,
+            'classMember',
+            undefined,
+            undefined,
+            undefined,
+            undefined,
+            parent,
+            undefined,
+            system
+        );
+        this.iconPath = new vscode.ThemeIcon(MEMBER_ICONS[element.kind]);
+        this.description = element.description;
+        this.tooltip = [element.visibility, element.level, element.kind, element.name].filter(Boolean).join(' ');
+
+        const href = element.definitionHref || element.implementationHref;
+        if (href && system) {
+            const location = AdtFileSystemProvider.location(system, href);
+            this.command = {
+                command: 'vscode.open',
+                title: 'Go to Definition',
+                arguments: [location.uri, { selection: location.range }]
+            };
+        }
+    }
+}
+
+const FAVORITES_KEY = 'abap-tools.favoritePackages';
+
+interface CachedChildren {
+    items: PackageItem[];
+    expires: number;
+}
+
 export class PackageHierarchyProvider implements vscode.TreeDataProvider<PackageItem> {
     private _onDidChangeTreeData: vscode.EventEmitter<PackageItem | undefined | null | void> = new vscode.EventEmitter<PackageItem | undefined | null | void>();
     readonly onDidChangeTreeData: vscode.Event<PackageItem | undefined | null | void> = this._onDidChangeTreeData.event;
 
-    constructor(private adtService: AdtService) {
+    // Children per node, keyed by system and the labels of the path to it
+    private cache = new Map<string, CachedChildren>();
+    private visibleCounts = new Map<string, number>();
+
+    constructor(private connectionManager: ConnectionManager, private state: vscode.Memento) {
+        vscode.commands.registerCommand('abap-tools.refreshPackageNode', (item: PackageItem) => this.refreshNode(item));
+
+        vscode.commands.registerCommand('abap-tools.loadMorePackageItems', (owner?: PackageItem) => {
+            const key = this.cacheKey(this.getService(owner).systemId, owner);
+            this.visibleCounts.set(key, (this.visibleCounts.get(key) || this.pageSize()) + this.pageSize());
+            this._onDidChangeTreeData.fire(owner);
+        });
+
+        vscode.commands.registerCommand('abap-tools.addFavoritePackage', (item: PackageItem) =>
+            this.updateFavorites(item, favorites => [...favorites.filter(name => name !== item.label), item.label])
+        );
+        vscode.commands.registerCommand('abap-tools.removeFavoritePackage', (item: PackageItem) =>
+            this.updateFavorites(item, favorites => favorites.filter(name => name !== item.label))
+        );
+
         // Register create class command
         vscode.commands.registerCommand('abap-tools.createClass', async (item: PackageItem) => {
             if (!item.packageUri) {
@@ -100,218 +275,388 @@ export class PackageHierarchyProvider implements vscode.TreeDataProvider<Package
                 return;
             }
 
-            const dialog = new CreateClassDialog(item.label);
-            const classDetails = await dialog.show();
-            
+            const adtService = this.getService(item);
+            const dialog = new CreateClassDialog(adtService, packageNameOf(item));
+            const classDetails = await dialog.show(details =>
+                adtService.createClass(details, TransportPicker.selector(adtService))
+            );
+
             if (classDetails) {
-                try {
-                    await this.adtService.createClass(classDetails);
-                    this.refresh(); // Refresh the tree view
-                    vscode.window.showInformationMessage(`Class ${classDetails.name} created successfully`);
-                } catch (error) {
-                    vscode.window.showErrorMessage(`Failed to create class: ${error}`);
+                this.refresh(); // Refresh the tree view
+                vscode.window.showInformationMessage(`Class ${classDetails.name} created successfully`);
+            }
+        });
+
+        vscode.commands.registerCommand('abap-tools.newObject', async (item: PackageItem) => {
+            let name = 'object';
+            try {
+                const adtService = this.getService(item);
+                const details = await new NewObjectWizard(adtService, packageNameOf(item)).show();
+                if (details === 'class') {
+                    await vscode.commands.executeCommand('abap-tools.createClass', item);
+                    return;
                 }
+                if (!details) {
+                    return;
+                }
+
+                name = details.name;
+                const sourcePath = await vscode.window.withProgress(
+                    { location: vscode.ProgressLocation.Notification, title: `Creating ${details.name}` },
+                    () => adtService.createObject(details, TransportPicker.selector(adtService))
+                );
+                this.refresh();
+                if (sourcePath) {
+                    await AdtFileSystemProvider.open(adtService.systemId, sourcePath);
+                }
+                vscode.window.showInformationMessage(`${details.name} created successfully`);
+            } catch (error) {
+                showAdtError(`Failed to create ${name}`, error, item?.system);
+            }
+        });
+
+        vscode.commands.registerCommand('abap-tools.createTestClassInclude', async (item: ClassIncludeItem) => {
+            const choice = await vscode.window.showInformationMessage(
+                `Create the test classes include of ${item.parent?.label}?`,
+                { modal: true },
+                'Create'
+            );
+            if (choice !== 'Create') {
+                return;
+            }
+
+            try {
+                const adtService = this.getService(item);
+                const sourcePath = await adtService.createTestClassInclude(item.classPath, TransportPicker.selector(adtService));
+                this.refreshNode(item.parent);
+                await AdtFileSystemProvider.open(adtService.systemId, sourcePath);
+            } catch (error) {
+                showAdtError('Failed to create test classes include', error, item.system);
             }
         });
 
         // Add double-click handler for both programs and classes
         vscode.commands.registerCommand('abap-tools.openSource', async (item: PackageItem) => {
-            if (item.type === 'virtualFolder') {
-                try {
-                    let source: string;
-                    if (item.facet === 'REPO') {
-                        source = await this.adtService.getProgramSource(item.label);
-                    } else if (item.facet === 'CLAS') {
-                        source = await this.adtService.getClassSource(item.label);
-                    } else {
-                        return;
-                    }
-                    
-                    // Create and show document
-                    const document = await vscode.workspace.openTextDocument({
-                        content: source,
-                        language: 'abap'
-                    });
-                    await vscode.window.showTextDocument(document);
-                    await vscode.commands.executeCommand('editor.action.formatDocument');
-                } catch (error) {
-                    vscode.window.showErrorMessage(`Failed to open source: ${error}`);
-                }
+            const object = resolveObject(item);
+            if (!object) {
+                return;
+            }
+            try {
+                const adtService = this.getService(item);
+                await AdtFileSystemProvider.open(adtService.systemId, object.editorPath);
+            } catch (error) {
+                showAdtError('Failed to open source', error, item.system);
             }
         });
+    }
 
-        // Add handler for TYPE items
-        vscode.commands.registerCommand('abap-tools.openType', async (item: PackageItem) => {
-            if (item.type === 'virtualFolder' && item.facet === 'TYPE') {
-                try {
-                    let source: string;
-                    if (item.vituri?.toLowerCase().includes('ddl')) {
-                        // Handle DDL source using the vituri path but with the correct endpoint
-                        const ddlName = item.label;
-                        source = await this.adtService.getObjectSource(`/ddic/ddl/sources/${ddlName}/source/main`);
-                    
-                    }else if (item.vituri?.toLowerCase().includes('clas')) {
-                        source = await this.adtService.getClassSource(item.label);
-
-                        
-                    }else {
-                        // Handle other types
-                        source = await this.adtService.getObjectSource(item.vituri!);
-                    }
-                    
-                    // Create and show document
-                    const document = await vscode.workspace.openTextDocument({
-                        content: source,
-                        language: 'abap'
-                    });
-                    await vscode.window.showTextDocument(document);
-                    await vscode.commands.executeCommand('editor.action.formatDocument');
-                } catch (error) {
-                    vscode.window.showErrorMessage(`Failed to open source: ${error}`);
+    refresh(): void {
+        this.cache.clear();
+        this.visibleCounts.clear();
+        this._onDidChangeTreeData.fire();
+    }
+
+    // Reload one node and everything below it
+    refreshNode(item?: PackageItem): void {
+        const key = this.cacheKey(this.getService(item).systemId, item);
+        for (const map of [this.cache, this.visibleCounts]) {
+            for (const cachedKey of [...map.keys()]) {
+                if (cachedKey === key || cachedKey.startsWith(`${key}/`)) {
+                    map.delete(cachedKey);
                 }
             }
-        });
+        }
+        this._onDidChangeTreeData.fire(item);
     }
 
-    refresh(): void {
+    private cacheKey(system: string, item?: PackageItem): string {
+        const path: string[] = [];
+        for (let node = item; node; node = node.parent) {
+            path.unshift(node.label);
+        }
+        return [system, ...path].join('/');
+    }
+
+    private pageSize(): number {
+        return Math.max(vscode.workspace.getConfiguration('abap-tools').get<number>('packageTreePageSize', 100), 1);
+    }
+
+    private getFavorites(system: string): string[] {
+        return this.state.get<Record<string, string[]>>(FAVORITES_KEY, {})[system] || [];
+    }
+
+    private async updateFavorites(item: PackageItem, update: (favorites: string[]) => string[]) {
+        const system = this.getService(item).systemId;
+        const all = this.state.get<Record<string, string[]>>(FAVORITES_KEY, {});
+        await this.state.update(FAVORITES_KEY, { ...all, [system]: update(all[system] || []) });
+        // Only the root level lists favorites
+        this.cache.delete(this.cacheKey(system));
         this._onDidChangeTreeData.fire();
     }
 
+    private packageItem(name: string, uri: string, system: string, favorite = false): PackageItem {
+        const item = new PackageItem(
+            name,
+            vscode.TreeItemCollapsibleState.Collapsed,
+            uri,
+            'package',
+            0,
+            'package',
+            "package",
+            "true",
+            undefined,
+            undefined,
+            system
+        );
+        if (favorite) {
+            item.iconPath = new vscode.ThemeIcon('star-full');
+            item.contextValue = 'favoritePackage';
+        }
+        return item;
+    }
+
+    // Items remember the system they were loaded from, so switching the
+    // active system never sends requests for them to the wrong host
+    private getService(item?: PackageItem): AdtService {
+        return item?.system
+            ? this.connectionManager.getService(item.system)
+            : this.connectionManager.activeService;
+    }
+
+    // Class leaves expand into the class's object structure
+    private classPathOf(item: PackageItem): string | undefined {
+        if (item.type !== 'virtualFolder') {
+            return undefined;
+        }
+        const object = resolveObject(item);
+        return object?.info.type === 'CLAS/OC' ? object.objectPath : undefined;
+    }
+
+    // Local includes first, then the sections of the class definition
+    private async getClassStructure(adtService: AdtService, element: PackageItem, classPath: string): Promise<PackageItem[]> {
+        const system = adtService.systemId;
+        const [structure, includes] = await Promise.all([
+            adtService.getObjectStructure(classPath),
+            adtService.getClassIncludes(classPath)
+        ]);
+
+        const items: PackageItem[] = [];
+        for (const includeType of Object.keys(INCLUDE_LABELS)) {
+            const include = includes.find(i => i.includeType === includeType);
+            if (include || includeType === 'testclasses') {
+                const elements = includeType === 'testclasses' ? structure.testClasses : [];
+                items.push(new ClassIncludeItem(includeType, classPath, include?.sourcePath, elements, element, system));
+            }
+        }
+        items.push(
+            new ClassSectionItem('Public Section', structure.sections.public, element, system),
+            new ClassSectionItem('Protected Section', structure.sections.protected, element, system),
+            new ClassSectionItem('Private Section', structure.sections.private, element, system)
+        );
+        return items;
+    }
+
     getTreeItem(element: PackageItem): vscode.TreeItem {
         const treeItem = element;
-        if (element.type === 'virtualFolder') {
-            if (element.facet === 'REPO' || element.facet === 'CLAS') {
-                treeItem.command = {
-                    command: 'abap-tools.openSource',
-                    title: 'Open Source',
-                    arguments: [element]
-                };
-            } else if (element.facet === 'TYPE') {
-                treeItem.command = {
-                    command: 'abap-tools.openType',
-                    title: 'Open Type',
-                    arguments: [element]
-                };
-            }
+        if (resolveObject(element)) {
+            treeItem.command = {
+                command: 'abap-tools.openSource',
+                title: 'Open Source',
+                arguments: [element]
+            };
         }
         return treeItem;
     }
 
     async getChildren(element?: PackageItem): Promise<PackageItem[]> {
-        const connectionInfo = this.adtService.getConnectionInfo();
+        if (!this.connectionManager.hasActiveService()) {
+            return [new PackageItem('No SAP system configured', vscode.TreeItemCollapsibleState.None)];
+        }
+
+        const adtService = this.getService(element);
+        const system = adtService.systemId;
+        // First expansion reconnects with stored credentials
+        if (!element && vscode.workspace.getConfiguration('abap-tools').get<boolean>('autoConnect', true)) {
+            await this.connectionManager.ensureConnected(system);
+        }
+
+        const connectionInfo = adtService.getConnectionInfo();
         if (!connectionInfo.isConnected) {
-            return [new PackageItem('Not connected to SAP', vscode.TreeItemCollapsibleState.None)];
+            return [new PackageItem(`Not connected to SAP (${system})`, vscode.TreeItemCollapsibleState.None)];
         }
-    
-        try {
-            if (!element) {
-                // Root level - show main packages
-                const packages = await this.adtService.getPackages();
-                return packages.map(pkg => 
-                    new PackageItem(
-                        pkg.name,
-                        vscode.TreeItemCollapsibleState.Collapsed,
-                        pkg.uri,
-                        'package',
-                        0,
-                        'package',
-                        "package", 
-                        "true"
-                    )
-                );
-            } else if (element.type === 'package') {
-                // Get virtual folders for the package
-                const virtualFolders = await this.adtService.getVirtualFolderContents(
-                    element.packageUri!,
-                    'package',
-                    element.label,
-                    "SOURCE_LIBRARY",""
-                );
 
+        const key = this.cacheKey(system, element);
+        let cached = this.cache.get(key);
+        if (!cached || cached.expires <= Date.now()) {
+            try {
+                const ttl = vscode.workspace.getConfiguration('abap-tools').get<number>('packageTreeCacheTtl', 300);
+                cached = { items: await this.loadChildren(adtService, element), expires: Date.now() + ttl * 1000 };
+                this.cache.set(key, cached);
+            } catch (error) {
+                console.error('Failed to load items:', error);
+                const errorItem = new PackageItem('Error loading items', vscode.TreeItemCollapsibleState.None);
+                errorItem.tooltip = error instanceof Error ? error.message : String(error);
+                return [errorItem];
+            }
+        }
 
-                console.log("Virtual folders:", virtualFolders);
-                
-                // Process virtual folders
-                const processedFolders: PackageItem[] = [];
-                for (const folder of virtualFolders) {
-                    // If it's a package folder starting with "..", make another call
-                    if (folder.facet === 'PACKAGE' && folder.name.startsWith('..')) {
-                        const actualPackageName = folder.name.substring(2); // Remove ".." prefix
-                        const subFolders = await this.adtService.getVirtualFolderContents(
-                            element.packageUri!,
-                            'PACKAGE',
-                            actualPackageName,
-                            "SOURCE_LIBRARY",
-                            element.parent?.label || ""
-                        );
-                        
-                        processedFolders.push(...subFolders.map(subfolder => 
-                            new PackageItem(
-                                subfolder.name,
-                                vscode.TreeItemCollapsibleState.Collapsed,
-                                element.packageUri,
-                                'virtualFolder',
-                                subfolder.counter,
-                                subfolder.facet,
-                                subfolder.whatisclicked,
-                                subfolder.hasChildrenOfSameFacet,
-                                element
-                            )
-                        ));
-                    } else {
-                        processedFolders.push(
-                            new PackageItem(
-                                folder.name,
-                                vscode.TreeItemCollapsibleState.Collapsed,
-                                element.packageUri,
-                                'virtualFolder',
-                                folder.counter,
-                                folder.facet,
-                                folder.whatisclicked,
-                                folder.hasChildrenOfSameFacet,
-                                element,
-                                folder.vituri
-                            )
-                        );
-                    }
-                }
-                return processedFolders;
-            } else {
-                // Handle other virtual folders
-
-                if (element.facet === "TYPE") {
-                    // Get the parent's name when facet is TYPE
-                    const parentName = element.parent?.label || "";
-                    console.log("Parent name for TYPE:", parentName);
-                }
+        // Large folders show one page at a time
+        const visible = this.visibleCounts.get(key) || this.pageSize();
+        if (cached.items.length <= visible) {
+            return cached.items;
+        }
+        return [...cached.items.slice(0, visible), new LoadMoreItem(element, cached.items.length - visible)];
+    }
 
-                const virtualFolders = await this.adtService.getVirtualFolderContents(
-                    element.packageUri!,
-                    element.facet!,
-                    element.label,
-                    element.label,
-                    element.parent?.label || ""
-                );
+    private async loadChildren(adtService: AdtService, element?: PackageItem): Promise<PackageItem[]> {
+        const system = adtService.systemId;
+        if (!element) {
+            // Favorites first, then the configured root packages or all main packages
+            const favorites = this.getFavorites(system);
+            const rootPackages = vscode.workspace.getConfiguration('abap-tools').get<string[]>('rootPackages', []);
+            const packages = rootPackages.length
+                ? rootPackages.map(name => ({ name: name.toUpperCase(), uri: packageUriOf(name) }))
+                : await adtService.getPackages();
+            return [
+                ...favorites.map(name => this.packageItem(name, packageUriOf(name), system, true)),
+                ...packages
+                    .filter(pkg => !favorites.includes(pkg.name))
+                    .map(pkg => this.packageItem(pkg.name, pkg.uri, system))
+            ];
+        } else if (element.type === 'package') {
+            // Get virtual folders for the package
+            const virtualFolders = await adtService.getVirtualFolderContents(
+                element.packageUri!,
+                'package',
+                element.label,
+                "SOURCE_LIBRARY",""
+            );
 
-                return virtualFolders.map(folder => 
-                    new PackageItem(
-                        folder.name,
-                        vscode.TreeItemCollapsibleState.Collapsed,
-                        element.packageUri,
-                        'virtualFolder',
-                        folder.counter,
-                        folder.facet,
-                        folder.whatisclicked,
-                        folder.hasChildrenOfSameFacet,
-                        element,
-                        folder.vituri
-                    )
-                );
+            // Process virtual folders
+            const processedFolders: PackageItem[] = [];
+            for (const folder of virtualFolders) {
+                // If it's a package folder starting with "..", make another call
+                if (folder.facet === 'PACKAGE' && folder.name.startsWith('..')) {
+                    const actualPackageName = folder.name.substring(2); // Remove ".." prefix
+                    const subFolders = await adtService.getVirtualFolderContents(
+                        element.packageUri!,
+                        'PACKAGE',
+                        actualPackageName,
+                        "SOURCE_LIBRARY",
+                        element.parent?.label || ""
+                    );
+                    
+                    processedFolders.push(...subFolders.map(subfolder => 
+                        new PackageItem(
+                            subfolder.name,
+                            collapsibleStateOf(subfolder.type),
+                            element.packageUri,
+                            'virtualFolder',
+                            subfolder.counter,
+                            subfolder.facet,
+                            subfolder.whatisclicked,
+                            subfolder.hasChildrenOfSameFacet,
+                            element,
+                            undefined,
+                            system
+                        )
+                    ));
+                } else {
+                    processedFolders.push(
+                        new PackageItem(
+                            folder.name,
+                            collapsibleStateOf(folder.type),
+                            element.packageUri,
+                            'virtualFolder',
+                            folder.counter,
+                            folder.facet,
+                            folder.whatisclicked,
+                            folder.hasChildrenOfSameFacet,
+                            element,
+                            folder.vituri,
+                            system,
+                            folder.type,
+                            folder.uri
+                        )
+                    );
+                }
             }
-        } catch (error) {
-            console.error('Failed to load items:', error);
-            return [new PackageItem('Error loading items', vscode.TreeItemCollapsibleState.None)];
+            return processedFolders;
+        } else if (element instanceof ClassSectionItem) {
+            return element.elements.map(member => new ClassMemberItem(member, element, system));
+        } else if (element instanceof ClassMemberItem) {
+            return element.element.children.map(member => new ClassMemberItem(member, element, system));
+        } else if (this.classPathOf(element)) {
+            return await this.getClassStructure(adtService, element, this.classPathOf(element)!);
+        } else {
+            // Handle other virtual folders
+            const virtualFolders = await adtService.getVirtualFolderContents(
+                element.packageUri!,
+                element.facet!,
+                element.label,
+                element.label,
+                element.parent?.label || ""
+            );
+
+            return virtualFolders.map(folder => 
+                new PackageItem(
+                    folder.name,
+                    collapsibleStateOf(folder.type),
+                    element.packageUri,
+                    'virtualFolder',
+                    folder.counter,
+                    folder.facet,
+                    folder.whatisclicked,
+                    folder.hasChildrenOfSameFacet,
+                    element,
+                    folder.vituri,
+                    system,
+                    folder.type,
+                    folder.uri
+                )
+            );
         }
-        return [];
     }
-} 
\ No newline at end of file
+} 
+
+// Package an item belongs to: sub package folders are named "..NAME", all
+// other items carry the URI of the package they were loaded from
+function packageNameOf(item: PackageItem): string {
+    if (item.type === 'virtualFolder' && item.facet === 'PACKAGE') {
+        return item.label.replace(/^\.\./, '');
+    }
+    const fromUri = item.packageUri?.split('/').pop();
+    return decodeURIComponent(fromUri || item.label).toUpperCase();
+}
+
+// Folders named after a type in older trees, before objects carried their type
+const FACET_TYPES: Record<string, string> = {
+    CLAS: 'CLAS/OC',
+    REPO: 'PROG/P',
+    PROG: 'PROG/P',
+    INTF: 'INTF/OI'
+};
+
+// Type and ADT paths of an object leaf, undefined for folders and packages
+export function resolveObject(item: PackageItem): { info: AdtObjectTypeInfo; objectPath: string; editorPath: string } | undefined {
+    if (item.type !== 'virtualFolder') {
+        return undefined;
+    }
+    const info = getObjectType(item.objectType || FACET_TYPES[item.facet || '']);
+    if (!info) {
+        return undefined;
+    }
+    const objectPath = item.objectUri?.replace(/^\/sap\/bc\/adt/, '') || objectPathFor(info, item.label);
+    return { info, objectPath, editorPath: editorPathFor(info, objectPath) };
+}
+
+// Folders expand into their contents; objects only if they have a structure
+function collapsibleStateOf(objectType: string | undefined): vscode.TreeItemCollapsibleState {
+    return !objectType || getObjectType(objectType)?.expandable
+        ? vscode.TreeItemCollapsibleState.Collapsed
+        : vscode.TreeItemCollapsibleState.None;
+}
+
+function packageUriOf(name: string): string {
+    return `/sap/bc/adt/packages/${encodeURIComponent(name.toLowerCase())}`;
+}
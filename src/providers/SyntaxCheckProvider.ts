@@ -0,0 +1,130 @@
+import * as vscode from 'vscode';
+import { isSourcePath } from '../services/AdtObjectTypes';
+import { ConnectionManager } from '../services/ConnectionManager';
+import { ADT_SCHEME, AdtFileSystemProvider } from './AdtFileSystemProvider';
+import { toDiagnosticSeverity } from './AdtDiagnostics';
+
+// Runs the ADT syntax check on the unsaved content of adt:// editors
+export class SyntaxCheckProvider implements vscode.Disposable {
+    private diagnostics = vscode.languages.createDiagnosticCollection('abap-syntax');
+    private timers = new Map<string, NodeJS.Timeout>();
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private connectionManager: ConnectionManager) {
+        this.disposables.push(
+            this.diagnostics,
+            vscode.workspace.onDidOpenTextDocument(document => this.schedule(document)),
+            vscode.workspace.onDidChangeTextDocument(e => this.schedule(e.document)),
+            vscode.workspace.onDidCloseTextDocument(document => {
+                this.cancel(document);
+                this.diagnostics.delete(document.uri);
+            }),
+            vscode.commands.registerCommand('abap-tools.checkSyntax', () => {
+                const document = vscode.window.activeTextEditor?.document;
+                if (document) {
+                    this.check(document);
+                }
+            })
+        );
+        vscode.workspace.textDocuments.forEach(document => this.schedule(document));
+    }
+
+    // Only sources are checked; objects without source open as XML metadata
+    private static isSource(document: vscode.TextDocument): boolean {
+        return document.uri.scheme === ADT_SCHEME && isSourcePath(AdtFileSystemProvider.adtPath(document.uri));
+    }
+
+    private schedule(document: vscode.TextDocument) {
+        if (!SyntaxCheckProvider.isSource(document)) {
+            return;
+        }
+        const config = vscode.workspace.getConfiguration('abap-tools');
+        if (!config.get<boolean>('liveSyntaxCheck', true)) {
+            return;
+        }
+
+        this.cancel(document);
+        const delay = config.get<number>('syntaxCheckDelay', 750);
+        this.timers.set(
+            document.uri.toString(),
+            setTimeout(() => this.check(document), delay)
+        );
+    }
+
+    private cancel(document: vscode.TextDocument) {
+        const key = document.uri.toString();
+        const timer = this.timers.get(key);
+        if (timer) {
+            clearTimeout(timer);
+            this.timers.delete(key);
+        }
+    }
+
+    private async check(document: vscode.TextDocument) {
+        this.timers.delete(document.uri.toString());
+        if (!SyntaxCheckProvider.isSource(document)) {
+            return;
+        }
+        const adtService = this.connectionManager.getServiceForDocument(document);
+        if (!adtService || !adtService.getConnectionInfo().isConnected) {
+            return;
+        }
+
+        const version = document.version;
+        try {
+            const messages = await adtService.validateSyntax(
+                AdtFileSystemProvider.adtPath(document.uri),
+                document.getText()
+            );
+
+            // Results for outdated content would point to the wrong lines
+            if (document.isClosed || document.version !== version) {
+                return;
+            }
+
+            const diagnostics = messages
+                .filter(message => {
+                    // Messages of other includes belong to other editors
+                    const [path] = message.uri.split('#');
+                    return !path || document.uri.path === path || !/\/(?:source|includes)\//.test(path);
+                })
+                .map(message => {
+                    const range = message.uri.includes('#')
+                        ? AdtFileSystemProvider.location(adtService.systemId, message.uri).range
+                        : new vscode.Range(0, 0, 0, 0);
+                    // Underline from the reported column to the end of the line
+                    const line = document.lineAt(Math.min(range.start.line, document.lineCount - 1));
+                    const diagnostic = new vscode.Diagnostic(
+                        new vscode.Range(
+                            line.lineNumber,
+                            Math.min(range.start.character, line.range.end.character),
+                            line.lineNumber,
+                            line.range.end.character
+                        ),
+                        message.text,
+                        toDiagnosticSeverity(message.type)
+                    );
+                    diagnostic.source = 'ABAP syntax';
+                    if (message.longTextUri) {
+                        diagnostic.code = {
+                            value: message.code || 'Long text',
+                            target: vscode.Uri.parse(adtService.getWebUrl(message.longTextUri))
+                        };
+                    } else if (message.code) {
+                        diagnostic.code = message.code;
+                    }
+                    return diagnostic;
+                });
+
+            this.diagnostics.set(document.uri, diagnostics);
+        } catch (error) {
+            console.error('Syntax check failed:', error);
+        }
+    }
+
+    dispose() {
+        this.timers.forEach(timer => clearTimeout(timer));
+        this.timers.clear();
+        this.disposables.forEach(d => d.dispose());
+    }
+}
@@ -0,0 +1,208 @@
+import * as vscode from 'vscode';
+import { AdtTransportObject, AdtTransportRequest, AdtTransportTask } from '../services/AdtService';
+import { ConnectionManager } from '../services/ConnectionManager';
+import { ADT_SCHEME, AdtFileSystemProvider } from './AdtFileSystemProvider';
+
+export class TransportTaskItem extends vscode.TreeItem {
+    constructor(
+        public readonly task: AdtTransportTask,
+        public readonly system: string
+    ) {
+        super(task.number, task.objects.length > 0
+            ? vscode.TreeItemCollapsibleState.Collapsed
+            : vscode.TreeItemCollapsibleState.None);
+        this.description = `${task.description} · ${task.owner}`;
+        this.tooltip = `${task.number}: ${task.description}\nOwner: ${task.owner}`;
+        this.iconPath = new vscode.ThemeIcon('tasklist');
+        this.contextValue = 'transportTask';
+    }
+}
+
+export class TransportRequestItem extends TransportTaskItem {
+    constructor(
+        public readonly request: AdtTransportRequest,
+        system: string
+    ) {
+        super(request, system);
+        this.collapsibleState = request.tasks.length > 0 || request.objects.length > 0
+            ? vscode.TreeItemCollapsibleState.Collapsed
+            : vscode.TreeItemCollapsibleState.None;
+        this.tooltip = `${request.number}: ${request.description}\nOwner: ${request.owner}\nTarget: ${request.target || '-'}`;
+        this.iconPath = new vscode.ThemeIcon(request.category === 'customizing' ? 'settings' : 'package');
+        this.contextValue = 'transportRequest';
+    }
+}
+
+export class TransportObjectItem extends vscode.TreeItem {
+    constructor(
+        public readonly object: AdtTransportObject,
+        public readonly system: string
+    ) {
+        super(object.name, vscode.TreeItemCollapsibleState.None);
+        this.description = [object.pgmid, object.type].filter(Boolean).join(' ');
+        this.tooltip = object.info || object.name;
+        this.iconPath = new vscode.ThemeIcon('symbol-file');
+        this.contextValue = 'transportObject';
+        if (object.uri) {
+            this.command = {
+                command: 'vscode.open',
+                title: 'Open Source',
+                arguments: [AdtFileSystemProvider.location(system, object.uri, object.type).uri]
+            };
+        }
+    }
+}
+
+// Modifiable transport requests of the logged on user with tasks and objects
+export class TransportsProvider implements vscode.TreeDataProvider<vscode.TreeItem>, vscode.Disposable {
+    private _onDidChangeTreeData: vscode.EventEmitter<vscode.TreeItem | undefined | null | void> = new vscode.EventEmitter<vscode.TreeItem | undefined | null | void>();
+    readonly onDidChangeTreeData: vscode.Event<vscode.TreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
+
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private connectionManager: ConnectionManager) {
+        this.disposables.push(
+            vscode.commands.registerCommand('abap-tools.refreshTransports', () => this.refresh()),
+            vscode.commands.registerCommand('abap-tools.createTransport', () => this.createTransport()),
+            vscode.commands.registerCommand('abap-tools.releaseTransport', (item: TransportTaskItem) =>
+                this.releaseTransport(item)
+            ),
+            vscode.commands.registerCommand('abap-tools.changeTransportOwner', (item: TransportTaskItem) =>
+                this.changeOwner(item)
+            )
+        );
+    }
+
+    refresh(): void {
+        this._onDidChangeTreeData.fire();
+    }
+
+    getTreeItem(element: vscode.TreeItem): vscode.TreeItem {
+        return element;
+    }
+
+    async getChildren(element?: vscode.TreeItem): Promise<vscode.TreeItem[]> {
+        if (element instanceof TransportRequestItem) {
+            return [
+                ...element.request.tasks.map(task => new TransportTaskItem(task, element.system)),
+                ...element.request.objects.map(object => new TransportObjectItem(object, element.system))
+            ];
+        }
+        if (element instanceof TransportTaskItem) {
+            return element.task.objects.map(object => new TransportObjectItem(object, element.system));
+        }
+        if (element || !this.connectionManager.hasActiveService()) {
+            return [];
+        }
+
+        const adtService = this.connectionManager.activeService;
+        if (!adtService.getConnectionInfo().isConnected) {
+            return [new vscode.TreeItem(`Not connected to SAP (${adtService.systemId})`)];
+        }
+
+        try {
+            const requests = await adtService.getTransports();
+            if (requests.length === 0) {
+                return [new vscode.TreeItem('No modifiable transport requests')];
+            }
+            return requests.map(request => new TransportRequestItem(request, adtService.systemId));
+        } catch (error) {
+            console.error('Failed to load transport requests:', error);
+            return [new vscode.TreeItem('Error loading transport requests')];
+        }
+    }
+
+    private async createTransport() {
+        try {
+            const adtService = this.connectionManager.activeService;
+
+            // The request is created for the object in the editor or for a package
+            let objectUri: string;
+            let packageName: string | undefined;
+            const uri = vscode.window.activeTextEditor?.document.uri;
+            if (uri?.scheme === ADT_SCHEME && uri.authority.toLowerCase() === adtService.systemId.toLowerCase()) {
+                objectUri = AdtFileSystemProvider.objectReference(uri).uri;
+                packageName = (await adtService.checkTransport(objectUri)).package;
+            } else {
+                packageName = (await vscode.window.showInputBox({
+                    prompt: 'Package of the new transport request',
+                    placeHolder: 'ZPACKAGE'
+                }))?.toUpperCase();
+                if (!packageName) {
+                    return;
+                }
+                objectUri = `/sap/bc/adt/packages/${encodeURIComponent(packageName.toLowerCase())}`;
+            }
+
+            const description = await vscode.window.showInputBox({
+                prompt: 'Description of the new transport request',
+                validateInput: value => value.trim() ? undefined : 'A description is required'
+            });
+            if (!description) {
+                return;
+            }
+
+            const number = await adtService.createTransport(objectUri, packageName || '', description);
+            this.refresh();
+            vscode.window.showInformationMessage(`Created transport request ${number}`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to create transport request: ${error}`);
+        }
+    }
+
+    private async releaseTransport(item: TransportTaskItem) {
+        const kind = item instanceof TransportRequestItem ? 'transport request' : 'task';
+        const confirmation = await vscode.window.showWarningMessage(
+            `Release ${kind} ${item.task.number}?`,
+            { modal: true },
+            'Release'
+        );
+        if (confirmation !== 'Release') {
+            return;
+        }
+
+        try {
+            const adtService = this.connectionManager.getService(item.system);
+            const messages = await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: `Releasing ${item.task.number}` },
+                () => adtService.releaseTransport(item.task.number)
+            );
+            this.refresh();
+
+            const errors = messages.filter(message => message.type === 'E' || message.type === 'A');
+            if (errors.length > 0) {
+                vscode.window.showErrorMessage(
+                    `Release of ${item.task.number} failed: ${errors.map(message => message.text).join('; ')}`
+                );
+            } else {
+                vscode.window.showInformationMessage(`Released ${kind} ${item.task.number}`);
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to release ${item.task.number}: ${error}`);
+        }
+    }
+
+    private async changeOwner(item: TransportTaskItem) {
+        const owner = await vscode.window.showInputBox({
+            prompt: `New owner of ${item.task.number}`,
+            value: item.task.owner,
+            validateInput: value => value.trim() ? undefined : 'A user is required'
+        });
+        if (!owner || owner.toUpperCase() === item.task.owner) {
+            return;
+        }
+
+        try {
+            const adtService = this.connectionManager.getService(item.system);
+            await adtService.changeTransportOwner(item.task.number, owner.trim());
+            this.refresh();
+            vscode.window.showInformationMessage(`Changed owner of ${item.task.number} to ${owner.toUpperCase()}`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to change owner of ${item.task.number}: ${error}`);
+        }
+    }
+
+    dispose() {
+        this.disposables.forEach(d => d.dispose());
+    }
+}
@@ -0,0 +1,258 @@
+import * as vscode from 'vscode';
+import { AdtService, AdtUnitAlert, AdtUnitProgram } from '../services/AdtService';
+import { ConnectionManager } from '../services/ConnectionManager';
+import { showAdtError } from '../dialogs/AdtErrorMessage';
+import { parseAbap, statementName } from '../services/AbapParser';
+import { ADT_SCHEME, AdtFileSystemProvider } from './AdtFileSystemProvider';
+import { PackageItem } from './PackageHierarchyProvider';
+
+interface DiscoveredTestClass {
+    name: string;
+    line: number;
+    methods: { name: string; line: number }[];
+}
+
+// Data kept per test item; ids are <system>|<object uri>[|<class>[|<method>]]
+interface TestItemData {
+    system: string;
+    objectUri: string;
+}
+
+// Runs ABAP Unit through ADT and reports into the VS Code Testing view
+export class UnitTestProvider implements vscode.Disposable {
+    private controller = vscode.tests.createTestController('abapUnit', 'ABAP Unit');
+    private data = new WeakMap<vscode.TestItem, TestItemData>();
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private connectionManager: ConnectionManager) {
+        this.controller.createRunProfile(
+            'Run ABAP Unit Tests',
+            vscode.TestRunProfileKind.Run,
+            (request, token) => this.runHandler(request, token),
+            true
+        );
+
+        this.disposables.push(
+            this.controller,
+            vscode.workspace.onDidOpenTextDocument(document => this.discover(document)),
+            vscode.workspace.onDidSaveTextDocument(document => this.discover(document)),
+            vscode.commands.registerCommand('abap-tools.runUnitTests', async (uri?: vscode.Uri) => {
+                const target = uri || vscode.window.activeTextEditor?.document.uri;
+                if (!target || target.scheme !== ADT_SCHEME) {
+                    vscode.window.showWarningMessage('Open an ABAP source from SAP to run its unit tests');
+                    return;
+                }
+                const adtService = this.connectionManager.getServiceForUri(target);
+                if (adtService) {
+                    const reference = AdtFileSystemProvider.objectReference(target);
+                    const item = this.getObjectItem(adtService.systemId, reference.uri, reference.name, target);
+                    await this.runHandler(new vscode.TestRunRequest([item]));
+                }
+            }),
+            vscode.commands.registerCommand('abap-tools.runPackageTests', async (item: PackageItem) => {
+                await this.runObjects(
+                    item.system,
+                    [`/sap/bc/adt/packages/${encodeURIComponent(item.label.toLowerCase())}`],
+                    `package ${item.label}`
+                );
+            })
+        );
+
+        vscode.workspace.textDocuments.forEach(document => this.discover(document));
+    }
+
+    // Find local test classes and FOR TESTING methods in an adt:// source
+    private discover(document: vscode.TextDocument) {
+        if (document.uri.scheme !== ADT_SCHEME) {
+            return;
+        }
+        const adtService = this.connectionManager.getServiceForDocument(document);
+        const classes = discoverTestClasses(document.getText());
+        if (!adtService || classes.length === 0) {
+            return;
+        }
+
+        const reference = AdtFileSystemProvider.objectReference(document.uri);
+        const objectItem = this.getObjectItem(adtService.systemId, reference.uri, reference.name, document.uri);
+        for (const testClass of classes) {
+            const classItem = this.getChild(objectItem, testClass.name, document.uri, testClass.line);
+            for (const method of testClass.methods) {
+                this.getChild(classItem, method.name, document.uri, method.line);
+            }
+        }
+    }
+
+    private getObjectItem(system: string, objectUri: string, name: string, uri?: vscode.Uri): vscode.TestItem {
+        const id = `${system}|${objectUri}`;
+        let item = this.controller.items.get(id);
+        if (!item) {
+            item = this.controller.createTestItem(id, name, uri);
+            item.description = system;
+            this.controller.items.add(item);
+            this.data.set(item, { system, objectUri });
+        }
+        return item;
+    }
+
+    private getChild(parent: vscode.TestItem, name: string, uri?: vscode.Uri, line?: number): vscode.TestItem {
+        const id = `${parent.id}|${name.toUpperCase()}`;
+        let item = parent.children.get(id);
+        if (!item) {
+            item = this.controller.createTestItem(id, name.toUpperCase(), uri);
+            parent.children.add(item);
+            this.data.set(item, this.data.get(parent)!);
+        }
+        if (line !== undefined) {
+            item.range = new vscode.Range(line, 0, line, 0);
+        }
+        return item;
+    }
+
+    private async runHandler(request: vscode.TestRunRequest, token?: vscode.CancellationToken) {
+        const run = this.controller.createTestRun(request);
+
+        // ADT runs whole objects; group the requested items by object
+        const roots = new Map<string, vscode.TestItem>();
+        const requested = request.include || Array.from(this.controller.items).map(([, item]) => item);
+        for (const item of requested) {
+            let root = item;
+            while (root.parent) {
+                root = root.parent;
+            }
+            roots.set(root.id, root);
+        }
+
+        for (const root of roots.values()) {
+            if (token?.isCancellationRequested) {
+                break;
+            }
+            const itemData = this.data.get(root);
+            if (!itemData) {
+                continue;
+            }
+            markStarted(run, root);
+            try {
+                const adtService = this.connectionManager.getService(itemData.system);
+                const programs = await adtService.runUnitTests([itemData.objectUri]);
+                this.report(run, adtService, programs);
+            } catch (error) {
+                run.errored(root, new vscode.TestMessage(String(error)));
+            }
+        }
+        run.end();
+    }
+
+    // Without a system the tests run on the active one
+    private async runObjects(system: string | undefined, objectUris: string[], title: string) {
+        const run = this.controller.createTestRun(new vscode.TestRunRequest(), `ABAP Unit: ${title}`);
+        try {
+            const adtService = system
+                ? this.connectionManager.getService(system)
+                : this.connectionManager.activeService;
+            const programs = await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: `Running ABAP Unit tests of ${title}` },
+                () => adtService.runUnitTests(objectUris)
+            );
+            this.report(run, adtService, programs);
+            if (programs.length === 0) {
+                vscode.window.showInformationMessage(`No ABAP Unit tests found in ${title}`);
+            }
+        } catch (error) {
+            showAdtError('ABAP Unit run failed', error, system);
+        } finally {
+            run.end();
+        }
+    }
+
+    private report(run: vscode.TestRun, adtService: AdtService, programs: AdtUnitProgram[]) {
+        const system = adtService.systemId;
+        for (const program of programs) {
+            const programItem = this.getObjectItem(
+                system,
+                program.uri,
+                program.name,
+                AdtFileSystemProvider.location(system, program.uri).uri
+            );
+
+            for (const testClass of program.testClasses) {
+                const classLocation = testClass.navigationUri
+                    ? AdtFileSystemProvider.location(system, testClass.navigationUri)
+                    : undefined;
+                const classItem = this.getChild(programItem, testClass.name, classLocation?.uri, classLocation?.range.start.line);
+
+                // Class level alerts, e.g. a failing class_setup, fail every method
+                const classMessages = testClass.alerts.map(alert => toTestMessage(system, alert));
+
+                for (const method of testClass.testMethods) {
+                    const location = method.navigationUri
+                        ? AdtFileSystemProvider.location(system, method.navigationUri)
+                        : undefined;
+                    const methodItem = this.getChild(classItem, method.name, location?.uri, location?.range.start.line);
+                    const messages = [...classMessages, ...method.alerts.map(alert => toTestMessage(system, alert))];
+                    const duration = method.executionTime * 1000;
+
+                    if (messages.length === 0) {
+                        run.passed(methodItem, duration);
+                    } else if (method.alerts.some(alert => alert.kind === 'exception')) {
+                        run.errored(methodItem, messages, duration);
+                    } else {
+                        run.failed(methodItem, messages, duration);
+                    }
+                }
+            }
+        }
+    }
+
+    dispose() {
+        this.disposables.forEach(d => d.dispose());
+    }
+}
+
+function markStarted(run: vscode.TestRun, item: vscode.TestItem) {
+    run.started(item);
+    item.children.forEach(child => markStarted(run, child));
+}
+
+function toTestMessage(system: string, alert: AdtUnitAlert): vscode.TestMessage {
+    const message = new vscode.TestMessage([alert.title, ...alert.details].filter(Boolean).join('\n'));
+    // The first stack entry points to the failing assertion
+    const [top] = alert.stack;
+    if (top?.uri) {
+        message.location = AdtFileSystemProvider.location(system, top.uri);
+    }
+    return message;
+}
+
+// Find "CLASS ... DEFINITION ... FOR TESTING" and "METHODS ... FOR TESTING",
+// chained METHODS: a FOR TESTING, b ... are split up by the parser
+export function discoverTestClasses(source: string): DiscoveredTestClass[] {
+    const classes: DiscoveredTestClass[] = [];
+    let current: DiscoveredTestClass | undefined;
+
+    for (const statement of parseAbap(source).statements) {
+        const words = statement.tokens.map(token => token.text.toUpperCase());
+        const name = statementName(statement);
+
+        if (statement.keyword === 'CLASS' && words[2] === 'DEFINITION' && name) {
+            const options = words.slice(3).join(' ');
+            current = /\bFOR TESTING\b/.test(options) && !/\b(DEFERRED|LOAD)\b/.test(options)
+                ? { name: name.text.toUpperCase(), line: statement.start.line, methods: [] }
+                : undefined;
+            if (current) {
+                classes.push(current);
+            }
+            continue;
+        }
+        if (statement.keyword === 'ENDCLASS') {
+            current = undefined;
+            continue;
+        }
+
+        if (current && name && (statement.keyword === 'METHODS' || statement.keyword === 'CLASS-METHODS')
+            && /\bFOR TESTING\b/.test(words.slice(2).join(' '))) {
+            current.methods.push({ name: name.text.toUpperCase(), line: name.line });
+        }
+    }
+
+    return classes;
+}
@@ -0,0 +1,226 @@
+import * as vscode from 'vscode';
+import { AdtService, AdtUsageReference } from '../services/AdtService';
+import { ConnectionManager } from '../services/ConnectionManager';
+import { ADT_SCHEME, AdtFileSystemProvider } from './AdtFileSystemProvider';
+import { PackageItem, resolveObject } from './PackageHierarchyProvider';
+
+interface UsageLine {
+    location: vscode.Location;
+    content: string;
+}
+
+interface UsageEntry {
+    reference: AdtUsageReference;
+    lines: UsageLine[];
+}
+
+export class UsagePackageItem extends vscode.TreeItem {
+    constructor(
+        label: string,
+        public readonly entries: UsageEntry[]
+    ) {
+        super(label, vscode.TreeItemCollapsibleState.Expanded);
+        this.description = `(${entries.length})`;
+        this.iconPath = new vscode.ThemeIcon('package');
+    }
+}
+
+export class UsageObjectItem extends vscode.TreeItem {
+    constructor(
+        public readonly entry: UsageEntry,
+        system: string
+    ) {
+        super(entry.reference.name, entry.lines.length > 0
+            ? vscode.TreeItemCollapsibleState.Collapsed
+            : vscode.TreeItemCollapsibleState.None);
+        this.description = [entry.reference.type, entry.reference.description].filter(Boolean).join(' · ');
+        this.iconPath = new vscode.ThemeIcon('symbol-file');
+        this.contextValue = 'usageObject';
+        const location = AdtFileSystemProvider.location(system, entry.reference.uri, entry.reference.type);
+        this.command = {
+            command: 'vscode.open',
+            title: 'Open Source',
+            arguments: [location.uri]
+        };
+    }
+}
+
+export class UsageLineItem extends vscode.TreeItem {
+    constructor(line: UsageLine) {
+        super(line.content.trim() || line.location.uri.path, vscode.TreeItemCollapsibleState.None);
+        this.description = `line ${line.location.range.start.line + 1}`;
+        this.iconPath = new vscode.ThemeIcon('references');
+        this.command = {
+            command: 'vscode.open',
+            title: 'Go to Usage',
+            arguments: [line.location.uri, { selection: line.location.range }]
+        };
+    }
+}
+
+// Where-used lists through the ADT usage references service: "Find All
+// References" in adt:// editors and a Where-Used view grouped by package
+export class WhereUsedProvider implements vscode.TreeDataProvider<vscode.TreeItem>, vscode.ReferenceProvider, vscode.Disposable {
+    private _onDidChangeTreeData: vscode.EventEmitter<vscode.TreeItem | undefined | null | void> = new vscode.EventEmitter<vscode.TreeItem | undefined | null | void>();
+    readonly onDidChangeTreeData: vscode.Event<vscode.TreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
+
+    private result: { title: string; system: string; entries: UsageEntry[] } | undefined;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private connectionManager: ConnectionManager) {
+        this.disposables.push(
+            vscode.languages.registerReferenceProvider({ scheme: ADT_SCHEME, language: 'abap' }, this),
+            vscode.commands.registerCommand('abap-tools.whereUsed', (item?: PackageItem) => this.whereUsed(item)),
+            vscode.commands.registerCommand('abap-tools.clearWhereUsed', () => {
+                this.result = undefined;
+                this.refresh();
+            })
+        );
+    }
+
+    refresh(): void {
+        this._onDidChangeTreeData.fire();
+    }
+
+    getTreeItem(element: vscode.TreeItem): vscode.TreeItem {
+        return element;
+    }
+
+    getChildren(element?: vscode.TreeItem): vscode.TreeItem[] {
+        if (!element) {
+            if (!this.result) {
+                return [new vscode.TreeItem('Run Where-Used on an object or symbol')];
+            }
+            if (this.result.entries.length === 0) {
+                return [new vscode.TreeItem(`No usages of ${this.result.title}`)];
+            }
+            const packages = new Map<string, UsageEntry[]>();
+            for (const entry of this.result.entries) {
+                const packageName = entry.reference.packageName || 'No package';
+                packages.set(packageName, [...(packages.get(packageName) || []), entry]);
+            }
+            return Array.from(packages)
+                .sort(([a], [b]) => a.localeCompare(b))
+                .map(([packageName, entries]) => new UsagePackageItem(packageName, entries));
+        }
+        if (element instanceof UsagePackageItem) {
+            return element.entries.map(entry => new UsageObjectItem(entry, this.result!.system));
+        }
+        if (element instanceof UsageObjectItem) {
+            return element.entry.lines.map(line => new UsageLineItem(line));
+        }
+        return [];
+    }
+
+    async provideReferences(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        _context: vscode.ReferenceContext,
+        token: vscode.CancellationToken
+    ): Promise<vscode.Location[]> {
+        const adtService = this.connectionManager.getServiceForDocument(document);
+        const range = document.getWordRangeAtPosition(position, IDENTIFIER);
+        if (!adtService || !range) {
+            return [];
+        }
+        try {
+            const entries = await this.findUsages(adtService, document.uri.path, range.start);
+            if (token.isCancellationRequested) {
+                return [];
+            }
+            return entries.flatMap(entry => entry.lines.length > 0
+                ? entry.lines.map(line => line.location)
+                : [AdtFileSystemProvider.location(adtService.systemId, entry.reference.uri, entry.reference.type)]);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Where-used list failed: ${error}`);
+            return [];
+        }
+    }
+
+    // Where-used of a tree object, or of the symbol under the cursor
+    private async whereUsed(item?: PackageItem) {
+        let adtService: AdtService | undefined;
+        let objectUri: string | undefined;
+        let position: vscode.Position | undefined;
+        let title: string;
+
+        if (item instanceof PackageItem) {
+            adtService = item.system
+                ? this.connectionManager.getService(item.system)
+                : this.connectionManager.activeService;
+            objectUri = objectUriOf(item);
+            title = item.label;
+        } else {
+            const editor = vscode.window.activeTextEditor;
+            const range = editor?.document.getWordRangeAtPosition(editor.selection.active, IDENTIFIER);
+            if (!editor || editor.document.uri.scheme !== ADT_SCHEME || !range) {
+                vscode.window.showWarningMessage('Place the cursor on an identifier in an ABAP source from SAP');
+                return;
+            }
+            adtService = this.connectionManager.getServiceForDocument(editor.document);
+            objectUri = editor.document.uri.path;
+            position = range.start;
+            title = editor.document.getText(range).toUpperCase();
+        }
+
+        if (!adtService || !objectUri) {
+            vscode.window.showWarningMessage(`Where-used is not available for ${title}`);
+            return;
+        }
+
+        try {
+            const service = adtService;
+            const uri = objectUri;
+            const entries = await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: `Searching usages of ${title}` },
+                () => this.findUsages(service, uri, position)
+            );
+            this.result = { title, system: adtService.systemId, entries };
+            this.refresh();
+            vscode.commands.executeCommand('abapWhereUsed.focus');
+        } catch (error) {
+            vscode.window.showErrorMessage(`Where-used list failed: ${error}`);
+        }
+    }
+
+    private async findUsages(adtService: AdtService, objectUri: string, position?: vscode.Position): Promise<UsageEntry[]> {
+        const references = (await adtService.findUsageReferences(
+            objectUri,
+            position && position.line + 1,
+            position?.character
+        )).filter(reference => reference.isResult);
+
+        const identifiers = references
+            .map(reference => reference.objectIdentifier)
+            .filter((identifier): identifier is string => !!identifier);
+        const snippets = await adtService.getUsageSnippets(identifiers);
+
+        const system = adtService.systemId;
+        return references.map(reference => ({
+            reference,
+            lines: (snippets.find(s => s.objectIdentifier === reference.objectIdentifier)?.snippets || [])
+                .map(snippet => ({
+                    location: AdtFileSystemProvider.location(system, snippet.uri),
+                    content: snippet.content
+                }))
+        }));
+    }
+
+    dispose() {
+        this.disposables.forEach(d => d.dispose());
+    }
+}
+
+// ABAP names may contain namespaces (/ABC/) and interface components (~)
+const IDENTIFIER = /[\w\/~]+/;
+
+function objectUriOf(item: PackageItem): string | undefined {
+    if (item.type === 'package') {
+        return `/sap/bc/adt/packages/${encodeURIComponent(item.label.toLowerCase())}`;
+    }
+    const object = resolveObject(item);
+    if (object) {
+        return `/sap/bc/adt${object.objectPath}`;
+    }
+    return item.vituri?.startsWith('/sap/bc/adt/') ? item.vituri : undefined;
+}
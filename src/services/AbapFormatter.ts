@@ -0,0 +1,251 @@
+// Local ABAP pretty printer, used when no system is available. It changes
+// the case of keywords and re-indents blocks; everything else is kept
+
+export type KeywordCase = "upper" | "lower" | "keep";
+
+export interface AbapFormatOptions {
+    keywordCase: KeywordCase;
+    indentation: boolean;
+    indentSize: number;
+}
+
+const DEFAULT_OPTIONS: AbapFormatOptions = {
+    keywordCase: "upper",
+    indentation: true,
+    indentSize: 2,
+};
+
+const KEYWORDS = new Set([
+    "ABSTRACT", "ADD", "ALIASES", "AND", "APPEND", "APPENDING", "AS", "ASSIGN", "ASSIGNING", "AT",
+    "AUTHORITY-CHECK", "BEGIN", "BETWEEN", "BINARY", "BY", "CALL", "CASE", "CAST", "CATCH", "CHANGING",
+    "CHECK", "CLASS", "CLASS-DATA", "CLASS-METHODS", "CLEANUP", "CLEAR", "CLOSE", "COLLECT", "COMMIT",
+    "COMPONENTS", "CONCATENATE", "CONDENSE", "CONSTANTS", "CONTINUE", "CORRESPONDING", "CREATE", "DATA",
+    "DEFAULT", "DEFERRED", "DEFINE", "DEFINITION", "DELETE", "DESCENDING", "DESCRIBE", "DO", "ELSE",
+    "ELSEIF", "END", "END-OF-DEFINITION", "END-OF-SELECTION", "ENDAT", "ENDCASE", "ENDCLASS", "ENDDO",
+    "ENDFORM", "ENDFUNCTION", "ENDIF", "ENDINTERFACE", "ENDLOOP", "ENDMETHOD", "ENDMODULE", "ENDON",
+    "ENDPROVIDE", "ENDSELECT", "ENDTRY", "ENDWHILE", "EQ", "EVENTS", "EXCEPTIONS", "EXIT", "EXPORTING",
+    "FIELD-SYMBOLS", "FINAL", "FIND", "FIRST", "FOR", "FORM", "FREE", "FRIENDS", "FROM", "FUNCTION",
+    "GE", "GET", "GROUP", "GT", "HASHED", "IF", "IMPLEMENTATION", "IMPORTING", "IN", "INCLUDE", "INDEX",
+    "INHERITING", "INITIAL", "INSERT", "INTERFACE", "INTERFACES", "INTO", "IS", "KEY", "LAST", "LE",
+    "LEAVE", "LENGTH", "LIKE", "LINE", "LOCAL", "LOOP", "LT", "MESSAGE", "METHOD", "METHODS", "MODIFY",
+    "MODULE", "MOVE", "NE", "NEW", "NOT", "OCCURRENCES", "OF", "OPTIONAL", "OR", "OTHERS", "PARAMETERS",
+    "PERFORM", "PRIVATE", "PROTECTED", "PROVIDE", "PUBLIC", "RAISE", "RAISING", "READ", "REDEFINITION",
+    "REF", "REFERENCE", "REFRESH", "REPLACE", "REPORT", "RESUMABLE", "RETURN", "RETURNING", "ROLLBACK",
+    "ROWS", "SECTION", "SELECT", "SELECT-OPTIONS", "SELECTION-SCREEN", "SET", "SINGLE", "SORT", "SORTED",
+    "SPLIT", "STANDARD", "START-OF-SELECTION", "STATICS", "STRUCTURE", "SUBMIT", "TABLE", "TABLES",
+    "TESTING", "TIMES", "TO", "TRANSLATE", "TRY", "TYPE", "TYPES", "UNIQUE", "UNTIL", "UP", "UPDATE",
+    "USING", "VALUE", "WHEN", "WHERE", "WHILE", "WITH", "WORK", "WRITE",
+]);
+
+const CLOSERS = new Set([
+    "ENDIF", "ENDLOOP", "ENDDO", "ENDWHILE", "ENDCASE", "ENDTRY", "ENDMETHOD", "ENDFORM", "ENDFUNCTION",
+    "ENDMODULE", "ENDCLASS", "ENDINTERFACE", "ENDAT", "ENDSELECT", "ENDPROVIDE", "END-OF-DEFINITION",
+    "END-TEST-SEAM",
+]);
+
+const SIMPLE_OPENERS = new Set([
+    "IF", "LOOP", "DO", "WHILE", "TRY", "METHOD", "FORM", "FUNCTION", "MODULE", "PROVIDE", "DEFINE",
+    "TEST-SEAM",
+]);
+
+// Result of scanning one source line
+interface ScannedLine {
+    text: string;
+    // Upper case words outside literals and comments; "." ends a statement
+    tokens: string[];
+}
+
+export function formatAbap(source: string, options: Partial<AbapFormatOptions> = {}): string {
+    const settings = { ...DEFAULT_OPTIONS, ...options };
+    const eol = source.includes("\r\n") ? "\r\n" : "\n";
+
+    const result: string[] = [];
+    // Levels pushed by the open blocks, CASE and class definitions push two
+    const stack: number[] = [];
+    let depth = 0;
+    let statement: string[] = [];
+    let shift = 0;
+
+    for (const line of source.split(/\r?\n/)) {
+        // Full line comments stay where they are
+        if (line.startsWith("*")) {
+            result.push(line);
+            continue;
+        }
+        if (!line.trim()) {
+            result.push("");
+            continue;
+        }
+
+        const scanned = scanLine(line, settings.keywordCase);
+        const text = scanned.text.trimStart();
+        const oldIndent = scanned.text.length - text.length;
+
+        let indent = oldIndent;
+        if (settings.indentation) {
+            if (statement.length === 0) {
+                const firstPeriod = scanned.tokens.indexOf(".");
+                const leading = firstPeriod >= 0 ? scanned.tokens.slice(0, firstPeriod) : scanned.tokens;
+                indent = Math.max(lineDepth(leading, depth, stack), 0) * settings.indentSize;
+                shift = indent - oldIndent;
+            } else {
+                // Continuation lines keep their position relative to the statement
+                indent = Math.max(oldIndent + shift, 0);
+            }
+        }
+        result.push(" ".repeat(indent) + text.trimEnd());
+
+        for (const token of scanned.tokens) {
+            if (token !== ".") {
+                statement.push(token);
+                continue;
+            }
+            depth = applyStatement(statement, depth, stack);
+            statement = [];
+        }
+    }
+
+    return result.join(eol);
+}
+
+// Depth of a line starting with the given statement words
+function lineDepth(words: string[], depth: number, stack: number[]): number {
+    const [first, second] = words;
+    if (!first) {
+        return depth;
+    }
+    if (CLOSERS.has(first)) {
+        return depth - (stack[stack.length - 1] || 0);
+    }
+    if (["ELSE", "ELSEIF", "CATCH", "CLEANUP", "WHEN"].includes(first)) {
+        return depth - 1;
+    }
+    if (["PUBLIC", "PROTECTED", "PRIVATE"].includes(first) && second === "SECTION") {
+        return depth - 1;
+    }
+    return depth;
+}
+
+// Depth after a complete statement
+function applyStatement(words: string[], depth: number, stack: number[]): number {
+    const [first] = words;
+    if (!first) {
+        return depth;
+    }
+    if (CLOSERS.has(first)) {
+        return depth - (stack.pop() || 0);
+    }
+
+    const levels = openedLevels(words);
+    if (levels > 0) {
+        stack.push(levels);
+        return depth + levels;
+    }
+    return depth;
+}
+
+function openedLevels(words: string[]): number {
+    const [first, second] = words;
+    if (SIMPLE_OPENERS.has(first)) {
+        return 1;
+    }
+    if (first === "CASE") {
+        return 2;
+    }
+    if (first === "AT" && ["FIRST", "LAST", "NEW", "END"].includes(second)) {
+        return 1;
+    }
+    if (first === "SELECT") {
+        // Only SELECT loops need ENDSELECT
+        return words.includes("SINGLE") || words.includes("TABLE") || second === "COUNT" ? 0 : 1;
+    }
+    if (first === "CLASS" || first === "INTERFACE") {
+        if (words.some((word) => ["DEFERRED", "LOAD"].includes(word)) || words.includes("FRIENDS") && words.includes("LOCAL")) {
+            return 0;
+        }
+        if (first === "INTERFACE") {
+            return 1;
+        }
+        if (words.includes("DEFINITION")) {
+            return 2;
+        }
+        return words.includes("IMPLEMENTATION") ? 1 : 0;
+    }
+    return 0;
+}
+
+// Change the keyword case of a line and collect its statement tokens,
+// skipping literals ('..', `..`, |..|) and end of line comments
+function scanLine(line: string, keywordCase: KeywordCase): ScannedLine {
+    const tokens: string[] = [];
+    let text = "";
+    let i = 0;
+
+    while (i < line.length) {
+        const char = line[i];
+
+        if (char === "\"") {
+            text += line.substring(i);
+            break;
+        }
+
+        if (char === "'" || char === "`" || char === "|") {
+            let end = i + 1;
+            while (end < line.length) {
+                if (char === "|" && line[end] === "\\") {
+                    end += 2;
+                    continue;
+                }
+                if (line[end] === char) {
+                    // Doubled quotes escape themselves
+                    if (char !== "|" && line[end + 1] === char) {
+                        end += 2;
+                        continue;
+                    }
+                    break;
+                }
+                end++;
+            }
+            text += line.substring(i, end + 1);
+            tokens.push(char);
+            i = end + 1;
+            continue;
+        }
+
+        if (/[A-Za-z_\/]/.test(char)) {
+            let end = i;
+            while (end < line.length && /[A-Za-z0-9_\/\-]/.test(line[end])) {
+                end++;
+            }
+            // Don't take a trailing "-" of e.g. "a-" followed by a literal
+            while (end > i + 1 && line[end - 1] === "-") {
+                end--;
+            }
+            const word = line.substring(i, end);
+            const upper = word.toUpperCase();
+            // Components like lo_x->data, zcl_x=>type or zif_x~data are names
+            const isComponent = [">", "~"].includes(line[i - 1]);
+
+            if (KEYWORDS.has(upper) && !isComponent && keywordCase !== "keep") {
+                text += keywordCase === "upper" ? upper : word.toLowerCase();
+            } else {
+                text += word;
+            }
+            tokens.push(upper);
+            i = end;
+            continue;
+        }
+
+        if (char === ".") {
+            // Periods inside numbers (1.5) are not statement ends
+            const isDecimal = /\d/.test(line[i - 1] || "") && /\d/.test(line[i + 1] || "");
+            if (!isDecimal) {
+                tokens.push(".");
+            }
+        }
+        text += char;
+        i++;
+    }
+
+    return { text, tokens };
+}
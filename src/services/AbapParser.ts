@@ -0,0 +1,468 @@
+// Offline ABAP parser: splits source into statements (expanding chained
+// statements), comments, an outline of classes, methods, forms... and
+// folding ranges. Positions are 0-based
+
+export interface AbapPosition {
+    line: number;
+    column: number;
+}
+
+export interface AbapToken extends AbapPosition {
+    text: string;
+}
+
+export interface AbapStatement {
+    // First word in upper case, e.g. DATA, CLASS, ENDMETHOD
+    keyword: string;
+    tokens: AbapToken[];
+    start: AbapPosition;
+    // Position of the closing period or chain comma
+    end: AbapPosition;
+    // Part of a chained statement (DATA: a, b.)
+    chained: boolean;
+}
+
+export interface AbapComment {
+    text: string;
+    start: AbapPosition;
+    // "*" comment or a line holding only a '"' comment
+    fullLine: boolean;
+}
+
+export type AbapSymbolKind =
+    | "class"
+    | "interface"
+    | "section"
+    | "method"
+    | "form"
+    | "module"
+    | "function"
+    | "event"
+    | "data"
+    | "constant"
+    | "type"
+    | "classEvent"
+    | "parameter";
+
+export interface AbapSymbol {
+    name: string;
+    kind: AbapSymbolKind;
+    detail?: string;
+    start: AbapPosition;
+    end: AbapPosition;
+    // Position of the name
+    selection: AbapPosition;
+    children: AbapSymbol[];
+}
+
+export interface AbapFoldingRange {
+    startLine: number;
+    endLine: number;
+    kind: "block" | "comment";
+}
+
+export interface AbapParseResult {
+    statements: AbapStatement[];
+    comments: AbapComment[];
+    symbols: AbapSymbol[];
+    foldingRanges: AbapFoldingRange[];
+}
+
+// Statements ending the block opened by the key
+const BLOCK_ENDS: Record<string, string> = {
+    CLASS: "ENDCLASS",
+    INTERFACE: "ENDINTERFACE",
+    METHOD: "ENDMETHOD",
+    FORM: "ENDFORM",
+    MODULE: "ENDMODULE",
+    FUNCTION: "ENDFUNCTION",
+    IF: "ENDIF",
+    LOOP: "ENDLOOP",
+    DO: "ENDDO",
+    WHILE: "ENDWHILE",
+    CASE: "ENDCASE",
+    TRY: "ENDTRY",
+    SELECT: "ENDSELECT",
+    AT: "ENDAT",
+    PROVIDE: "ENDPROVIDE",
+    DEFINE: "END-OF-DEFINITION",
+};
+
+const EVENTS = new Set([
+    "INITIALIZATION", "START-OF-SELECTION", "END-OF-SELECTION", "TOP-OF-PAGE", "END-OF-PAGE",
+    "LOAD-OF-PROGRAM", "AT",
+]);
+
+const DECLARATIONS: Record<string, AbapSymbolKind> = {
+    "DATA": "data",
+    "CLASS-DATA": "data",
+    "STATICS": "data",
+    "CONSTANTS": "constant",
+    "TYPES": "type",
+    "METHODS": "method",
+    "CLASS-METHODS": "method",
+    "EVENTS": "classEvent",
+    "CLASS-EVENTS": "classEvent",
+    "PARAMETERS": "parameter",
+    "PARAMETER": "parameter",
+    "SELECT-OPTIONS": "parameter",
+};
+
+export function parseAbap(source: string): AbapParseResult {
+    const { statements, comments } = tokenize(source);
+    return {
+        statements,
+        comments,
+        symbols: buildSymbols(statements),
+        foldingRanges: [...blockRanges(statements), ...commentRanges(comments)],
+    };
+}
+
+// Name of the statement's first token after the keyword, without
+// trailing punctuation such as "(" of DATA(x)
+export function statementName(statement: AbapStatement, index: number = 1): AbapToken | undefined {
+    const token = statement.tokens[index];
+    return token && { ...token, text: token.text.replace(/[.,:(]+$/, "") };
+}
+
+function tokenize(source: string): { statements: AbapStatement[]; comments: AbapComment[] } {
+    const statements: AbapStatement[] = [];
+    const comments: AbapComment[] = [];
+    const lines = source.split(/\r?\n/);
+
+    // Tokens of the current statement part and the chain prefix before ":"
+    let tokens: AbapToken[] = [];
+    let prefix: AbapToken[] | undefined;
+    let word: AbapToken | undefined;
+    let parens = 0;
+
+    const endWord = () => {
+        if (word) {
+            tokens.push(word);
+            word = undefined;
+        }
+    };
+    const emit = (line: number, column: number, last: boolean) => {
+        endWord();
+        const all = prefix ? [...prefix, ...tokens] : tokens;
+        if (all.length > 0 && (tokens.length > 0 || !prefix)) {
+            statements.push({
+                keyword: all[0].text.toUpperCase(),
+                tokens: all,
+                start: { line: tokens[0]?.line ?? all[0].line, column: tokens[0]?.column ?? all[0].column },
+                end: { line, column },
+                chained: prefix !== undefined,
+            });
+        }
+        tokens = [];
+        parens = 0;
+        if (last) {
+            prefix = undefined;
+        }
+    };
+    const append = (text: string, line: number, column: number) => {
+        if (word) {
+            word.text += text;
+        } else {
+            word = { text, line, column };
+        }
+    };
+
+    lines.forEach((line, lineIndex) => {
+        if (line.startsWith("*")) {
+            endWord();
+            comments.push({ text: line, start: { line: lineIndex, column: 0 }, fullLine: true });
+            return;
+        }
+
+        let i = 0;
+        while (i < line.length) {
+            const char = line[i];
+
+            if (char === "\"") {
+                endWord();
+                comments.push({
+                    text: line.substring(i),
+                    start: { line: lineIndex, column: i },
+                    fullLine: !line.substring(0, i).trim(),
+                });
+                break;
+            }
+
+            if (char === "'" || char === "`" || char === "|") {
+                let end = i + 1;
+                while (end < line.length) {
+                    if (char === "|" && line[end] === "\\") {
+                        end += 2;
+                        continue;
+                    }
+                    if (line[end] === char) {
+                        if (char !== "|" && line[end + 1] === char) {
+                            end += 2;
+                            continue;
+                        }
+                        break;
+                    }
+                    end++;
+                }
+                append(line.substring(i, end + 1), lineIndex, i);
+                i = end + 1;
+                continue;
+            }
+
+            if (/\s/.test(char)) {
+                endWord();
+            } else if (char === "." && !(/\d/.test(line[i - 1] || "") && /\d/.test(line[i + 1] || "") && word)) {
+                emit(lineIndex, i, true);
+            } else if (char === ":" && !prefix && parens === 0) {
+                endWord();
+                prefix = tokens;
+                tokens = [];
+            } else if (char === "," && prefix && parens === 0) {
+                emit(lineIndex, i, false);
+            } else {
+                if (char === "(") {
+                    parens++;
+                } else if (char === ")") {
+                    parens = Math.max(parens - 1, 0);
+                }
+                append(char, lineIndex, i);
+            }
+            i++;
+        }
+        endWord();
+    });
+
+    return { statements, comments };
+}
+
+function buildSymbols(statements: AbapStatement[]): AbapSymbol[] {
+    const root: AbapSymbol[] = [];
+    // Open modularization units and sections
+    const stack: { symbol: AbapSymbol; end: string }[] = [];
+    // Open BEGIN OF structures of chained declarations
+    const structures: AbapSymbol[] = [];
+    let previous: AbapStatement | undefined;
+
+    const children = () => structures[structures.length - 1]?.children
+        ?? stack[stack.length - 1]?.symbol.children
+        ?? root;
+    const open = (statement: AbapStatement, kind: AbapSymbolKind, end: string, nameIndex: number = 1, detail?: string) => {
+        const name = statementName(statement, nameIndex);
+        const symbol: AbapSymbol = {
+            name: name?.text || statement.keyword,
+            kind,
+            detail,
+            start: statement.start,
+            end: statement.end,
+            selection: name || statement.start,
+            children: [],
+        };
+        children().push(symbol);
+        stack.push({ symbol, end });
+    };
+    const close = (to: AbapPosition) => {
+        const entry = stack.pop();
+        if (entry) {
+            entry.symbol.end = to;
+        }
+    };
+    const top = () => stack[stack.length - 1];
+
+    for (const statement of statements) {
+        const words = statement.tokens.map((token) => token.text.toUpperCase());
+        const [keyword, second] = words;
+
+        // Sections and events end where the next one starts
+        const isSection = ["PUBLIC", "PROTECTED", "PRIVATE"].includes(keyword) && second?.startsWith("SECTION");
+        const isEvent = EVENTS.has(keyword) && (keyword !== "AT" || /^(SELECTION-SCREEN|LINE-SELECTION|USER-COMMAND)$/.test(second || ""));
+        if ((isSection && top()?.symbol.kind === "section")
+            || (isEvent || BLOCK_STARTS.has(keyword)) && top()?.symbol.kind === "event") {
+            close(previous?.end || statement.start);
+        }
+
+        // The last section ends with its class
+        if (keyword === "ENDCLASS" && top()?.symbol.kind === "section") {
+            close(previous?.end || statement.start);
+        }
+
+        if (top() && keyword === top().end) {
+            close(statement.end);
+        } else if (isSection) {
+            const symbol: AbapSymbol = {
+                name: `${keyword} SECTION`,
+                kind: "section",
+                start: statement.start,
+                end: statement.end,
+                selection: statement.start,
+                children: [],
+            };
+            children().push(symbol);
+            stack.push({ symbol, end: "" });
+        } else if (keyword === "CLASS" || keyword === "INTERFACE") {
+            const isReference = words.some((w) => w === "DEFERRED" || w === "LOAD") || words.includes("LOCAL") && words.includes("FRIENDS");
+            if (!isReference) {
+                const detail = keyword === "CLASS"
+                    ? (words.includes("IMPLEMENTATION") ? "implementation" : "definition")
+                    : undefined;
+                open(statement, keyword === "CLASS" ? "class" : "interface", BLOCK_ENDS[keyword], 1, detail);
+            }
+        } else if (keyword === "METHOD" || keyword === "FORM" || keyword === "FUNCTION") {
+            open(statement, keyword === "METHOD" ? "method" : keyword === "FORM" ? "form" : "function", BLOCK_ENDS[keyword]);
+        } else if (keyword === "MODULE" && statement.tokens.length > 1 && top() === undefined) {
+            open(statement, "module", BLOCK_ENDS[keyword], 1, statementName(statement, 2)?.text.toLowerCase());
+        } else if (isEvent) {
+            const name = statement.tokens.map((token) => token.text).join(" ");
+            const symbol: AbapSymbol = {
+                name,
+                kind: "event",
+                start: statement.start,
+                end: statement.end,
+                selection: statement.start,
+                children: [],
+            };
+            root.push(symbol);
+            stack.push({ symbol, end: "" });
+        } else if (DECLARATIONS[keyword] && isDeclarationScope(top()?.symbol)) {
+            addDeclaration(statement, words, DECLARATIONS[keyword], children, structures);
+        }
+        previous = statement;
+    }
+
+    // Events run to the end of the source
+    while (stack.length > 0) {
+        close(previous?.end || { line: 0, column: 0 });
+    }
+    return root;
+}
+
+const BLOCK_STARTS = new Set(["CLASS", "INTERFACE", "FORM", "MODULE", "FUNCTION"]);
+
+// Declarations of programs, class definitions and interfaces; locals of
+// methods and forms are left out of the outline
+function isDeclarationScope(scope?: AbapSymbol): boolean {
+    return !scope
+        || scope.kind === "section"
+        || scope.kind === "interface"
+        || scope.kind === "event"
+        || scope.kind === "class" && scope.detail === "definition";
+}
+
+function addDeclaration(
+    statement: AbapStatement,
+    words: string[],
+    kind: AbapSymbolKind,
+    children: () => AbapSymbol[],
+    structures: AbapSymbol[]
+) {
+    // TYPES/DATA BEGIN OF name ... END OF name
+    if (words[1] === "BEGIN" && words[2] === "OF") {
+        const name = statementName(statement, 3);
+        const symbol: AbapSymbol = {
+            name: name?.text || "",
+            kind,
+            detail: "structure",
+            start: statement.start,
+            end: statement.end,
+            selection: name || statement.start,
+            children: [],
+        };
+        children().push(symbol);
+        structures.push(symbol);
+        return;
+    }
+    if (words[1] === "END" && words[2] === "OF") {
+        const symbol = structures.pop();
+        if (symbol) {
+            symbol.end = statement.end;
+        }
+        return;
+    }
+
+    const name = statementName(statement);
+    if (!name) {
+        return;
+    }
+    // Type of data, constants and types, e.g. "REF TO zcl_x"
+    const type = kind === "method" || kind === "classEvent" ? -1 : words.indexOf("TYPE");
+    const typeEnd = words.findIndex((word, i) => i > type && ["VALUE", "READ-ONLY", "OPTIONAL", "DEFAULT"].includes(word));
+    children().push({
+        name: name.text,
+        kind,
+        detail: type > 0
+            ? statement.tokens.slice(type + 1, typeEnd > 0 ? typeEnd : undefined).map((token) => token.text).join(" ")
+            : undefined,
+        start: statement.start,
+        end: statement.end,
+        selection: name,
+        children: [],
+    });
+}
+
+// Folding ranges of modularization units and control blocks
+function blockRanges(statements: AbapStatement[]): AbapFoldingRange[] {
+    const ranges: AbapFoldingRange[] = [];
+    const stack: { end: string; line: number }[] = [];
+
+    for (const statement of statements) {
+        const words = statement.tokens.map((token) => token.text.toUpperCase());
+        const [keyword, second] = words;
+
+        const index = findLastIndex(stack, (entry) => entry.end === keyword);
+        if (index >= 0) {
+            const [entry] = stack.splice(index);
+            if (statement.start.line > entry.line) {
+                ranges.push({ startLine: entry.line, endLine: statement.start.line, kind: "block" });
+            }
+            continue;
+        }
+
+        const end = BLOCK_ENDS[keyword];
+        if (!end || statement.chained) {
+            continue;
+        }
+        if (keyword === "CLASS" || keyword === "INTERFACE") {
+            if (words.some((w) => w === "DEFERRED" || w === "LOAD") || words.includes("LOCAL") && words.includes("FRIENDS")) {
+                continue;
+            }
+        }
+        if (keyword === "SELECT" && (words.includes("SINGLE") || words.includes("TABLE") || second === "COUNT")) {
+            continue;
+        }
+        if (keyword === "AT" && !["FIRST", "LAST", "NEW", "END"].includes(second)) {
+            continue;
+        }
+        stack.push({ end, line: statement.start.line });
+    }
+    return ranges;
+}
+
+// Runs of at least two full line comments
+function commentRanges(comments: AbapComment[]): AbapFoldingRange[] {
+    const ranges: AbapFoldingRange[] = [];
+    let start: number | undefined;
+    let last = -2;
+
+    for (const comment of comments.filter((c) => c.fullLine)) {
+        if (comment.start.line !== last + 1) {
+            if (start !== undefined && last > start) {
+                ranges.push({ startLine: start, endLine: last, kind: "comment" });
+            }
+            start = comment.start.line;
+        }
+        last = comment.start.line;
+    }
+    if (start !== undefined && last > start) {
+        ranges.push({ startLine: start, endLine: last, kind: "comment" });
+    }
+    return ranges;
+}
+
+function findLastIndex<T>(items: T[], predicate: (item: T) => boolean): number {
+    for (let i = items.length - 1; i >= 0; i--) {
+        if (predicate(items[i])) {
+            return i;
+        }
+    }
+    return -1;
+}
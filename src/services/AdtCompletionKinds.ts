@@ -0,0 +1,34 @@
+// Kinds of the proposals of the ADT code completion service
+
+export type AdtCompletionKind =
+    | "keyword"
+    | "variable"
+    | "constant"
+    | "parameter"
+    | "field"
+    | "method"
+    | "event"
+    | "function"
+    | "type"
+    | "class"
+    | "interface"
+    | "other";
+
+// KIND of an SCC_COMPLETION entry
+const COMPLETION_KINDS: Record<number, AdtCompletionKind> = {
+    1: "keyword",
+    2: "variable",
+    3: "type",
+    4: "class",
+    5: "interface",
+    6: "method",
+    7: "parameter",
+    8: "field",
+    9: "event",
+    10: "constant",
+    11: "function",
+};
+
+export function completionKindOf(kind: number): AdtCompletionKind {
+    return COMPLETION_KINDS[kind] || "other";
+}
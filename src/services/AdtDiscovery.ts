@@ -0,0 +1,134 @@
+import { Parser } from "xml2js";
+
+// Typed view of the Atom service document served at /sap/bc/adt/discovery
+
+export interface AdtTemplateLink {
+    rel: string;
+    template: string;
+    type?: string;
+    title?: string;
+}
+
+export interface AdtCollection {
+    href: string;
+    title: string;
+    accept: string[];
+    category?: {
+        term: string;
+        scheme: string;
+    };
+    templateLinks: AdtTemplateLink[];
+}
+
+export interface AdtWorkspace {
+    title: string;
+    collections: AdtCollection[];
+}
+
+// Collections that identify an optional ADT feature on the server
+export const ADT_FEATURES = {
+    activation: "/sap/bc/adt/activation",
+    atc: "/sap/bc/adt/atc/runs",
+    aunit: "/sap/bc/adt/abapunit/testruns",
+    cds: "/sap/bc/adt/ddic/ddl/sources",
+    checkruns: "/sap/bc/adt/checkruns",
+    codeCompletion: "/sap/bc/adt/abapsource/codecompletion/proposal",
+    navigation: "/sap/bc/adt/navigation/target",
+    prettyPrinter: "/sap/bc/adt/abapsource/prettyprinter",
+    transports: "/sap/bc/adt/cts/transportrequests",
+    usageReferences: "/sap/bc/adt/repository/informationsystem/usageReferences",
+} as const;
+
+export type AdtFeature = keyof typeof ADT_FEATURES;
+
+export class AdtServiceCatalog {
+    private collections = new Map<string, AdtCollection>();
+
+    constructor(readonly workspaces: AdtWorkspace[]) {
+        for (const workspace of workspaces) {
+            for (const collection of workspace.collections) {
+                this.collections.set(collection.href, collection);
+            }
+        }
+    }
+
+    static async parse(xml: string): Promise<AdtServiceCatalog> {
+        const parser = new Parser({
+            explicitArray: true,
+            tagNameProcessors: [(name) => name.replace(/^[^:]+:/, "")],
+        });
+        const result = await parser.parseStringPromise(xml);
+
+        const workspaces: AdtWorkspace[] = (result?.service?.workspace || []).map(
+            (workspace: any): AdtWorkspace => ({
+                title: text(workspace.title?.[0]),
+                collections: (workspace.collection || []).map(
+                    (collection: any): AdtCollection => {
+                        const category = collection.category?.[0]?.$;
+                        return {
+                            href: collection.$?.href || "",
+                            title: text(collection.title?.[0]),
+                            accept: (collection.accept || []).map(text).filter(Boolean),
+                            category: category
+                                ? { term: category.term || "", scheme: category.scheme || "" }
+                                : undefined,
+                            templateLinks: (collection.templateLinks?.[0]?.templateLink || []).map(
+                                (link: any): AdtTemplateLink => ({
+                                    rel: link.$?.rel || "",
+                                    template: link.$?.template || "",
+                                    type: link.$?.type,
+                                    title: link.$?.title,
+                                })
+                            ),
+                        };
+                    }
+                ),
+            })
+        );
+
+        return new AdtServiceCatalog(workspaces);
+    }
+
+    getCollection(href: string): AdtCollection | undefined {
+        return this.collections.get(href);
+    }
+
+    hasFeature(feature: AdtFeature): boolean {
+        return this.collections.has(ADT_FEATURES[feature]);
+    }
+
+    // Pick the highest version of a media type the collection accepts, e.g.
+    // application/vnd.sap.adt.oo.classes.v4+xml for "application/vnd.sap.adt.oo.classes"
+    getMediaType(href: string, baseType: string): string | undefined {
+        const accepted = this.collections.get(href)?.accept || [];
+        const pattern = new RegExp(`^${escapeRegExp(baseType)}(?:\\.v(\\d+))?\\+xml$`);
+
+        let best: { type: string; version: number } | undefined;
+        for (const type of accepted) {
+            const match = pattern.exec(type);
+            if (match) {
+                const version = match[1] ? parseInt(match[1], 10) : 1;
+                if (!best || version > best.version) {
+                    best = { type, version };
+                }
+            }
+        }
+        return best?.type;
+    }
+
+    getTemplateLinks(href: string, rel?: string): AdtTemplateLink[] {
+        const links = this.collections.get(href)?.templateLinks || [];
+        return rel ? links.filter(link => link.rel === rel) : links;
+    }
+}
+
+function text(node: any): string {
+    if (node === undefined || node === null) {
+        return "";
+    }
+    return typeof node === "string" ? node : node._ || "";
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,100 @@
+import { Parser } from "xml2js";
+
+export type AdtErrorKind = "notAuthorized" | "locked" | "notFound" | "sessionTimeout" | "other";
+
+// Failed ADT request, parsed from the exc:exception document the server
+// sends with most error responses
+export class AdtError extends Error {
+    constructor(
+        message: string,
+        readonly status: number,
+        readonly statusText: string,
+        readonly kind: AdtErrorKind,
+        readonly namespace: string = "",
+        readonly type: string = "",
+        readonly properties: Record<string, string> = {},
+        readonly body: string = "",
+        // User holding the lock for kind "locked"
+        readonly lockedBy?: string
+    ) {
+        super(message);
+        this.name = "AdtError";
+    }
+
+    // Same error with a more specific message
+    withMessage(message: string): AdtError {
+        return new AdtError(
+            message,
+            this.status,
+            this.statusText,
+            this.kind,
+            this.namespace,
+            this.type,
+            this.properties,
+            this.body,
+            this.lockedBy
+        );
+    }
+
+    static async fromResponse(status: number, statusText: string, body: string): Promise<AdtError> {
+        let exception: any;
+        if (/<(?:\w+:)?exception[\s>]/.test(body)) {
+            try {
+                const parser = new Parser({
+                    explicitArray: false,
+                    tagNameProcessors: [(name) => name.replace(/^[^:]+:/, "")],
+                    attrNameProcessors: [(name) => name.replace(/^[^:]+:/, "")],
+                });
+                exception = (await parser.parseStringPromise(body))?.exception;
+            } catch {
+                // Not XML after all; keep the raw body for the details
+            }
+        }
+
+        const namespace = exception?.namespace?.$?.id || "";
+        const type = exception?.type?.$?.id || "";
+        const properties: Record<string, string> = {};
+        for (const entry of toArray<any>(exception?.properties?.entry)) {
+            if (entry?.$?.key) {
+                properties[entry.$.key] = typeof entry === "string" ? entry : entry._ || "";
+            }
+        }
+        const message =
+            textOf(exception?.localizedMessage) ||
+            textOf(exception?.message) ||
+            `${statusText || "ADT request failed"} (${status})`;
+
+        const kind = classify(status, type, message);
+        const lockedBy = kind === "locked"
+            ? /\buser\s+([A-Z0-9_$\/]+)/i.exec(message)?.[1] || properties["T100KEY-V1"]
+            : undefined;
+        return new AdtError(message, status, statusText, kind, namespace, type, properties, body, lockedBy);
+    }
+}
+
+function classify(status: number, type: string, message: string): AdtErrorKind {
+    if (status === 401 || /SessionTimeout|SessionNotFound/i.test(type) || /session.*(timed out|expired)/i.test(message)) {
+        return "sessionTimeout";
+    }
+    if (/Lock/i.test(type) || /\b(locked|currently (being )?edit)/i.test(message)) {
+        return "locked";
+    }
+    if (status === 403 || /Authori[sz]/i.test(type) || /no authori[sz]ation|not authori[sz]ed/i.test(message)) {
+        return "notAuthorized";
+    }
+    if (status === 404 || /NotFound|DoesNotExist/i.test(type) || /does not exist/i.test(message)) {
+        return "notFound";
+    }
+    return "other";
+}
+
+function textOf(node: any): string {
+    return (typeof node === "string" ? node : node?._ || "").trim();
+}
+
+function toArray<T>(value: T | T[] | undefined): T[] {
+    if (value === undefined || value === null) {
+        return [];
+    }
+    return Array.isArray(value) ? value : [value];
+}
@@ -0,0 +1,213 @@
+import { AdtError } from "./AdtError";
+
+// Object types the New ABAP Object wizard can create, with the ADT
+// collection, validation endpoint and initial source of each
+
+export interface NewObjectDetails {
+    // ADT type, e.g. PROG/P
+    type: string;
+    name: string;
+    description: string;
+    package: string;
+    // Function group of a function module
+    container?: string;
+    // Data source of a CDS view entity
+    dataSource?: string;
+}
+
+export interface CreatableObjectType {
+    type: string;
+    label: string;
+    maxLength: number;
+    placeholder: string;
+    // Collection the creation request is posted to, relative to /sap/bc/adt
+    collectionPath: (details: NewObjectDetails) => string;
+    validationPath: string;
+    rootElement: string;
+    namespace: string;
+    // Label of the container field, for types created inside another object
+    containerLabel?: string;
+    sourceTemplate?: (details: NewObjectDetails) => string;
+}
+
+const CDS_TEMPLATE = (details: NewObjectDetails) => `@AccessControl.authorizationCheck: #NOT_REQUIRED
+@EndUserText.label: '${details.description.replace(/'/g, "''")}'
+define view entity ${details.name}
+  as select from ${details.dataSource || "data_source_name"}
+{
+}
+`;
+
+export const CREATABLE_TYPES: CreatableObjectType[] = [
+    {
+        type: "INTF/OI",
+        label: "Interface",
+        maxLength: 30,
+        placeholder: "ZIF_YOUR_INTERFACE",
+        collectionPath: () => "/oo/interfaces",
+        validationPath: "/oo/validation/objectname",
+        rootElement: "intf:abapInterface",
+        namespace: "http://www.sap.com/adt/oo/interfaces",
+        sourceTemplate: (details) => `INTERFACE ${details.name.toLowerCase()}\n  PUBLIC.\n\nENDINTERFACE.\n`,
+    },
+    {
+        type: "PROG/P",
+        label: "Program",
+        maxLength: 40,
+        placeholder: "ZYOUR_REPORT",
+        collectionPath: () => "/programs/programs",
+        validationPath: "/programs/validation",
+        rootElement: "program:abapProgram",
+        namespace: "http://www.sap.com/adt/programs/programs",
+        sourceTemplate: (details) => `REPORT ${details.name.toLowerCase()}.\n`,
+    },
+    {
+        type: "PROG/I",
+        label: "Include",
+        maxLength: 40,
+        placeholder: "ZYOUR_INCLUDE",
+        collectionPath: () => "/programs/includes",
+        validationPath: "/programs/validation",
+        rootElement: "include:abapInclude",
+        namespace: "http://www.sap.com/adt/programs/includes",
+        sourceTemplate: (details) => `*&---------------------------------------------------------------------*\n*& Include ${details.name}\n*&---------------------------------------------------------------------*\n`,
+    },
+    {
+        type: "FUGR/F",
+        label: "Function Group",
+        maxLength: 26,
+        placeholder: "ZYOUR_FUNCTION_GROUP",
+        collectionPath: () => "/functions/groups",
+        validationPath: "/functions/validation",
+        rootElement: "group:abapFunctionGroup",
+        namespace: "http://www.sap.com/adt/functions/groups",
+    },
+    {
+        type: "FUGR/FF",
+        label: "Function Module",
+        maxLength: 30,
+        placeholder: "Z_YOUR_FUNCTION",
+        collectionPath: (details) => `/functions/groups/${encodeURIComponent((details.container || "").toLowerCase())}/fmodules`,
+        validationPath: "/functions/validation",
+        rootElement: "fmodule:abapFunctionModule",
+        namespace: "http://www.sap.com/adt/functions/fmodules",
+        containerLabel: "Function group",
+        sourceTemplate: (details) => `FUNCTION ${details.name.toLowerCase()}.\n\nENDFUNCTION.\n`,
+    },
+    {
+        type: "MSAG/N",
+        label: "Message Class",
+        maxLength: 20,
+        placeholder: "ZYOUR_MESSAGES",
+        collectionPath: () => "/messageclass",
+        validationPath: "/messageclass/validation",
+        rootElement: "mc:messageClass",
+        namespace: "http://www.sap.com/adt/MessageClass",
+    },
+    {
+        type: "DTEL/DE",
+        label: "Data Element",
+        maxLength: 30,
+        placeholder: "ZYOUR_DATA_ELEMENT",
+        collectionPath: () => "/ddic/dataelements",
+        validationPath: "/ddic/dataelements/validation",
+        rootElement: "blue:wbobj",
+        namespace: "http://www.sap.com/wbobj/dictionary/dtel",
+    },
+    {
+        type: "DDLS/DF",
+        label: "CDS Data Definition",
+        maxLength: 30,
+        placeholder: "ZI_YOUR_VIEW",
+        collectionPath: () => "/ddic/ddl/sources",
+        validationPath: "/ddic/ddl/validation",
+        rootElement: "ddl:ddlSource",
+        namespace: "http://www.sap.com/adt/ddic/ddlsources",
+        sourceTemplate: CDS_TEMPLATE,
+    },
+];
+
+export function getCreatableType(type: string): CreatableObjectType | undefined {
+    return CREATABLE_TYPES.find((creatable) => creatable.type === type);
+}
+
+// Checks that don't need the server: characters, customer namespace and
+// length of the name
+export function checkObjectName(
+    objectType: Pick<CreatableObjectType, "label" | "maxLength">,
+    name: string
+): string | undefined {
+    if (!name) {
+        return "A name is required";
+    }
+    if (!/^(?:\/[A-Z0-9_]+\/)?[A-Z0-9_]+$/.test(name)) {
+        return "Use letters, digits and underscores, optionally with a /NAMESPACE/ prefix";
+    }
+    if (!/^([ZY]|\/)/.test(name)) {
+        return "Names must start with Z, Y or a /NAMESPACE/ of your own";
+    }
+    if (name.length > objectType.maxLength) {
+        return `${objectType.label} names are limited to ${objectType.maxLength} characters`;
+    }
+    return undefined;
+}
+
+// Path of the object relative to /sap/bc/adt
+export function objectPathOf(objectType: CreatableObjectType, details: NewObjectDetails): string {
+    return `${objectType.collectionPath(details)}/${encodeURIComponent(details.name.toLowerCase())}`;
+}
+
+export function creationBody(objectType: CreatableObjectType, details: NewObjectDetails, responsible = ""): string {
+    const [prefix] = objectType.rootElement.split(":");
+    // Function modules belong to their group, which determines the package
+    const reference = objectType.containerLabel
+        ? `<adtcore:containerRef adtcore:name="${escapeXml(details.container || "")}" adtcore:type="FUGR/F" adtcore:uri="/sap/bc/adt/functions/groups/${encodeURIComponent((details.container || "").toLowerCase())}"/>`
+        : `<adtcore:packageRef adtcore:name="${escapeXml(details.package)}"/>`;
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<${objectType.rootElement} xmlns:${prefix}="${objectType.namespace}" xmlns:adtcore="http://www.sap.com/adt/core"
+    adtcore:description="${escapeXml(details.description)}" adtcore:name="${escapeXml(details.name)}"
+    adtcore:type="${objectType.type}" adtcore:responsible="${escapeXml(responsible)}">
+    ${reference}
+</${objectType.rootElement}>`;
+}
+
+// Fields of the Create Class dialog a server error can be shown next to
+export type ClassField = "name" | "description" | "superclass" | "interfaces" | "form";
+
+// Field a failed class creation is about, judged by the exception type and
+// the objects its message parameters name. Everything else (transport, lock,
+// authorization) belongs to the form
+export function classFieldOfError(
+    error: unknown,
+    classDetails: { superclass?: string; interfaces?: string[] }
+): ClassField {
+    if (!(error instanceof AdtError)) {
+        return "form";
+    }
+    if (/AlreadyExist/i.test(error.type)) {
+        return "name";
+    }
+    const named = Object.values(error.properties).map((value) => value.trim().toUpperCase());
+    if (classDetails.superclass && named.includes(classDetails.superclass.toUpperCase())) {
+        return "superclass";
+    }
+    if ((classDetails.interfaces || []).some((name) => named.includes(name.toUpperCase()))) {
+        return "interfaces";
+    }
+    if (/Descr/i.test(error.type)) {
+        return "description";
+    }
+    if (/Name/i.test(error.type)) {
+        return "name";
+    }
+    return "form";
+}
+
+function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+}
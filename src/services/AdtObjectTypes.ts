@@ -0,0 +1,87 @@
+// Where each repository object type lives in ADT and how it is edited
+
+export type AdtEditorLanguage = "abap" | "cds" | "xml";
+
+export interface AdtObjectTypeInfo {
+    // ADT type, e.g. CLAS/OC
+    type: string;
+    label: string;
+    // Collection of the objects, relative to /sap/bc/adt
+    collection: string;
+    // Types without source are shown as their XML metadata, read-only
+    hasSource: boolean;
+    language: AdtEditorLanguage;
+    // Theme icon id
+    icon: string;
+    // Tree entries expand into the object's structure; only classes so far
+    expandable?: boolean;
+}
+
+export const OBJECT_TYPES: AdtObjectTypeInfo[] = [
+    { type: "CLAS/OC", label: "Class", collection: "/oo/classes", hasSource: true, language: "abap", icon: "symbol-class", expandable: true },
+    { type: "INTF/OI", label: "Interface", collection: "/oo/interfaces", hasSource: true, language: "abap", icon: "symbol-interface" },
+    { type: "PROG/P", label: "Program", collection: "/programs/programs", hasSource: true, language: "abap", icon: "file-code" },
+    { type: "PROG/I", label: "Include", collection: "/programs/includes", hasSource: true, language: "abap", icon: "file-submodule" },
+    { type: "FUGR/F", label: "Function Group", collection: "/functions/groups", hasSource: true, language: "abap", icon: "symbol-namespace" },
+    // Function modules sit below their group: /functions/groups/<group>/fmodules/<name>
+    { type: "FUGR/FF", label: "Function Module", collection: "/functions/groups/*/fmodules", hasSource: true, language: "abap", icon: "symbol-function" },
+    { type: "FUGR/I", label: "Function Group Include", collection: "/functions/groups/*/includes", hasSource: true, language: "abap", icon: "file-submodule" },
+    { type: "TABL/DT", label: "Database Table", collection: "/ddic/tables", hasSource: true, language: "cds", icon: "database" },
+    { type: "TABL/DS", label: "Structure", collection: "/ddic/structures", hasSource: true, language: "cds", icon: "symbol-structure" },
+    { type: "TTYP/DA", label: "Table Type", collection: "/ddic/tabletypes", hasSource: false, language: "xml", icon: "symbol-enum" },
+    { type: "DTEL/DE", label: "Data Element", collection: "/ddic/dataelements", hasSource: false, language: "xml", icon: "symbol-field" },
+    { type: "DOMA/DD", label: "Domain", collection: "/ddic/domains", hasSource: false, language: "xml", icon: "symbol-ruler" },
+    { type: "VIEW/DV", label: "Dictionary View", collection: "/ddic/views", hasSource: false, language: "xml", icon: "preview" },
+    { type: "DDLS/DF", label: "CDS Data Definition", collection: "/ddic/ddl/sources", hasSource: true, language: "cds", icon: "symbol-structure" },
+    { type: "DCLS/DL", label: "CDS Access Control", collection: "/acm/dcl/sources", hasSource: true, language: "cds", icon: "shield" },
+    { type: "DDLX/EX", label: "CDS Metadata Extension", collection: "/ddic/ddlx/sources", hasSource: true, language: "cds", icon: "symbol-property" },
+    { type: "BDEF/BDO", label: "Behavior Definition", collection: "/bo/behaviordefinitions", hasSource: true, language: "cds", icon: "symbol-event" },
+    { type: "SRVD/SRV", label: "Service Definition", collection: "/ddic/srvd/sources", hasSource: true, language: "cds", icon: "symbol-interface" },
+    { type: "SRVB/SVB", label: "Service Binding", collection: "/businessservices/bindings", hasSource: false, language: "xml", icon: "plug" },
+    { type: "MSAG/N", label: "Message Class", collection: "/messageclass", hasSource: false, language: "xml", icon: "comment-discussion" },
+];
+
+// Exact type first; a main type such as TABL matches its first subtype
+export function getObjectType(type: string | undefined): AdtObjectTypeInfo | undefined {
+    if (!type) {
+        return undefined;
+    }
+    const normalized = type.toUpperCase();
+    return (
+        OBJECT_TYPES.find((info) => info.type === normalized) ||
+        OBJECT_TYPES.find((info) => info.type.split("/")[0] === normalized.split("/")[0])
+    );
+}
+
+// Object path relative to /sap/bc/adt; container fills the * of nested types
+export function objectPathFor(info: AdtObjectTypeInfo, name: string, container = ""): string {
+    const collection = info.collection.replace("*", encodeURIComponent(container.toLowerCase()));
+    return `${collection}/${encodeURIComponent(name.toLowerCase())}`;
+}
+
+// What the editor opens for an object: its main source or its metadata
+export function editorPathFor(info: AdtObjectTypeInfo, objectPath: string): string {
+    return info.hasSource ? `${objectPath}/source/main` : objectPath;
+}
+
+export function isSourcePath(adtPath: string): boolean {
+    return /\/(?:source|includes)\//.test(adtPath);
+}
+
+// Type of the object an ADT path (relative to /sap/bc/adt) belongs to
+export function objectTypeOfPath(adtPath: string): AdtObjectTypeInfo | undefined {
+    // Longest collection first, so function modules win over their group
+    return [...OBJECT_TYPES]
+        .sort((a, b) => b.collection.length - a.collection.length)
+        .find((info) => {
+            const pattern = info.collection.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace("*", "[^/]+");
+            return new RegExp(`^${pattern}/[^/]+(?:/|$)`).test(adtPath);
+        });
+}
+
+export function languageOfPath(adtPath: string): AdtEditorLanguage {
+    if (!isSourcePath(adtPath)) {
+        return "xml";
+    }
+    return objectTypeOfPath(adtPath)?.language || "abap";
+}
@@ -1,28 +1,77 @@
 import * as vscode from "vscode";
-import fetch from "node-fetch";
 import { Parser } from "xml2js";
+import { AdtSession, AdtSessionRequest } from "./AdtSession";
+import { AdtError } from "./AdtError";
+import { AdtFeature, AdtServiceCatalog } from "./AdtDiscovery";
+import { creationBody, getCreatableType, NewObjectDetails, objectPathOf } from "./AdtObjectCreation";
 
 // Interfaces for different ADT responses
-interface AdtDiscoveryResponse {
-    links: {
-        href: string;
-        rel: string;
-        title: string;
-    }[];
+export type AdtVisibility = "public" | "protected" | "private";
+
+export type AdtStructureElementKind =
+    | "method"
+    | "attribute"
+    | "event"
+    | "type"
+    | "alias"
+    | "interface"
+    | "class"
+    | "other";
+
+// Component of a class or interface from its object structure
+export interface AdtStructureElement {
+    name: string;
+    // ADT type, e.g. CLAS/OM for methods
+    type: string;
+    kind: AdtStructureElementKind;
+    visibility: AdtVisibility;
+    // instance or static
+    level?: string;
+    description?: string;
+    // Source links with a #start=line,column fragment
+    definitionHref?: string;
+    implementationHref?: string;
+    children: AdtStructureElement[];
+}
+
+// Include of a global class: main, definitions, implementations, macros or testclasses
+export interface AdtClassInclude {
+    includeType: string;
+    name: string;
+    // Source path relative to /sap/bc/adt
+    sourcePath: string;
 }
 
-interface AdtObjectStructure {
+export interface AdtObjectStructure {
     objectName: string;
     objectType: string;
-    children?: AdtObjectStructure[];
+    description?: string;
+    definitionHref?: string;
+    sections: Record<AdtVisibility, AdtStructureElement[]>;
+    // Local classes of the test classes include
+    testClasses: AdtStructureElement[];
 }
 
 interface ConnectionInfo {
+    system: string;
     url: string;
+    client: string;
+    language: string;
     username: string | undefined;
     isConnected: boolean;
 }
 
+// Named SAP system entry from abap-tools.connections
+export interface ConnectionProfile {
+    name: string;
+    host: string;
+    port: string;
+    client: string;
+    protocol: "http" | "https";
+    language: string;
+    user?: string;
+}
+
 // Add new interface for package structure
 interface AdtPackage {
     name: string;
@@ -50,6 +99,216 @@ interface AdtClass {
     description?: string;
 }
 
+// Result of an ADT lock (_action=LOCK)
+export interface AdtLock {
+    lockHandle: string;
+    transport?: string;
+    transportUser?: string;
+    transportText?: string;
+    isLocal: boolean;
+}
+
+// Reference to a repository object, e.g. for activation
+export interface AdtObjectReference {
+    uri: string;
+    name: string;
+    type?: string;
+    parentUri?: string;
+}
+
+// Object using another object or symbol, from the usage references service.
+// Entries with isResult false are only grouping nodes (packages, classes)
+export interface AdtUsageReference {
+    uri: string;
+    objectIdentifier?: string;
+    parentUri?: string;
+    isResult: boolean;
+    name: string;
+    type: string;
+    description?: string;
+    packageName?: string;
+}
+
+// Source lines of one using object; uri carries #start=line,column
+export interface AdtUsageSnippet {
+    objectIdentifier: string;
+    snippets: { uri: string; content: string; description?: string }[];
+}
+
+// Entry of the ADT code completion; prefixLength characters before the
+// cursor are replaced by the identifier
+export interface AdtCompletionProposal {
+    identifier: string;
+    kind: number;
+    prefixLength: number;
+    isMeta: boolean;
+}
+
+// Element info of a symbol: declaration, ABAP Doc and nested components
+// such as method parameters, exceptions or structure fields
+export interface AdtElementInfo {
+    name: string;
+    type: string;
+    href?: string;
+    documentation?: string;
+    properties: { key: string; value: string }[];
+    components: AdtElementInfo[];
+}
+
+// Pretty printer settings of the logged on user
+export interface AdtPrettyPrinterSettings {
+    indentation: boolean;
+    // toUpper, toLower, keywordUpper, keywordLower, keywordAuto or none
+    style: string;
+}
+
+// Hit of the repository information system quick search
+export interface AdtSearchResult {
+    uri: string;
+    type: string;
+    name: string;
+    packageName?: string;
+    description?: string;
+}
+
+export interface AdtActivationMessage {
+    type: "E" | "W" | "I" | string;
+    text: string;
+    href?: string;
+    line?: number;
+    objectDescription?: string;
+}
+
+export interface AdtActivationResult {
+    success: boolean;
+    messages: AdtActivationMessage[];
+    // Dependent inactive objects the server wants activated together
+    inactiveObjects: AdtInactiveObject[];
+}
+
+export interface AdtInactiveObject extends AdtObjectReference {
+    user?: string;
+    deleted: boolean;
+    transport?: string;
+}
+
+// Message of a check run (syntax check)
+export interface AdtCheckMessage {
+    uri: string;
+    type: "E" | "W" | "I" | string;
+    text: string;
+    code?: string;
+    category?: string;
+    longTextUri?: string;
+}
+
+export interface AdtAtcFinding {
+    uri: string;
+    location: string;
+    priority: number;
+    checkId?: string;
+    checkTitle: string;
+    messageId?: string;
+    messageTitle: string;
+    // quickfixInfo of the finding, needed to request an exemption
+    markerId?: string;
+    exemptionKind?: string;
+    documentationUri?: string;
+}
+
+export interface AdtAtcObject {
+    uri: string;
+    type: string;
+    name: string;
+    packageName?: string;
+    author?: string;
+    findings: AdtAtcFinding[];
+}
+
+export interface AdtAtcWorklist {
+    id: string;
+    timestamp?: string;
+    complete: boolean;
+    objects: AdtAtcObject[];
+}
+
+export interface AdtUnitAlert {
+    kind: string;
+    severity: string;
+    title: string;
+    details: string[];
+    stack: { uri: string; description?: string }[];
+}
+
+export interface AdtUnitTestMethod {
+    uri: string;
+    name: string;
+    navigationUri?: string;
+    executionTime: number;
+    alerts: AdtUnitAlert[];
+}
+
+export interface AdtUnitTestClass {
+    uri: string;
+    name: string;
+    navigationUri?: string;
+    alerts: AdtUnitAlert[];
+    testMethods: AdtUnitTestMethod[];
+}
+
+export interface AdtUnitProgram {
+    uri: string;
+    type: string;
+    name: string;
+    testClasses: AdtUnitTestClass[];
+}
+
+export interface AdtTransportObject {
+    pgmid: string;
+    type: string;
+    name: string;
+    info?: string;
+    uri?: string;
+}
+
+export interface AdtTransportTask {
+    number: string;
+    owner: string;
+    description: string;
+    status: string;
+    objects: AdtTransportObject[];
+}
+
+export interface AdtTransportRequest extends AdtTransportTask {
+    category: string;
+    target?: string;
+    tasks: AdtTransportTask[];
+}
+
+// Result of the transport check for writing an object
+export interface AdtTransportInfo {
+    recording: boolean;
+    isLocal: boolean;
+    package?: string;
+    // Request the object is already locked in
+    lockedIn?: string;
+    requests: { number: string; description: string; owner: string }[];
+}
+
+// Asks the user for a transport request; undefined cancels the write
+export type TransportSelector = (
+    objectUri: string,
+    info: AdtTransportInfo
+) => Promise<string | undefined>;
+
+// ADT request returning the response body, e.g. the stateful one of withStatefulSession
+export type AdtRequest = (
+    path: string,
+    method?: string,
+    body?: string,
+    headers?: Record<string, string>
+) => Promise<string>;
+
 interface VirtualFolder {
     name: string;
     displayName: string;
@@ -57,27 +316,53 @@ interface VirtualFolder {
     facet: string;
     type: string;
     vituri: string;
+    // ADT URI of objects, e.g. /sap/bc/adt/functions/groups/zfg/fmodules/z_calc
+    uri?: string;
     isExpandable: boolean;
     whatisclicked: string;
     hasChildrenOfSameFacet: string;
 }
 
 export class AdtService {
+    readonly profile: ConnectionProfile;
     private baseUrl: string;
-    private credentials: string = "";
-    private csrfToken: string = "";
+    private session: AdtSession;
+    private catalog: AdtServiceCatalog | undefined;
     private username: string | undefined;
 
-    constructor(isTestMode: boolean = false) {
-        const config = vscode.workspace.getConfiguration("abap-tools");
-        if (isTestMode) {
-            this.baseUrl = "https://gclp0285.devint.net.sap:8443/sap/bc/adt";
-            return;
+    // Pass a profile for a named system; `true` selects the test system and
+    // `false` falls back to the abap-tools.default* settings
+    constructor(profile: ConnectionProfile | boolean = false) {
+        if (profile === true) {
+            this.profile = {
+                name: "TEST",
+                host: "gclp0285.devint.net.sap",
+                port: "8443",
+                client: "100",
+                protocol: "https",
+                language: "EN",
+            };
+        } else if (profile === false) {
+            this.profile = AdtService.profileFromDefaults();
+        } else {
+            this.profile = profile;
         }
-        const protocol =
-            config.get<string>("defaultPort") === "8443" ? "https" : "http";
+
+        const { protocol, host, port } = this.profile;
+        this.baseUrl = `${protocol}://${host}:${port}/sap/bc/adt`;
+        this.username = this.profile.user;
+        this.session = new AdtSession({
+            baseUrl: this.baseUrl,
+            client: this.profile.client,
+            language: this.profile.language,
+        });
+    }
+
+    // Build a profile from the legacy single-system settings
+    static profileFromDefaults(): ConnectionProfile {
+        const config = vscode.workspace.getConfiguration("abap-tools");
         const host = config.get<string>("defaultHost");
-        const port = config.get<string>("defaultPort");
+        const port = config.get<string>("defaultPort") || "8000";
 
         if (!host) {
             throw new Error(
@@ -85,15 +370,29 @@ export class AdtService {
             );
         }
 
-        this.baseUrl = `${protocol}://${host}:${port}/sap/bc/adt`;
+        return {
+            name: host,
+            host,
+            port,
+            client: config.get<string>("defaultClient") || "100",
+            protocol: port === "8443" ? "https" : "http",
+            language: config.get<string>("defaultLanguage") || "EN",
+        };
+    }
+
+    get systemId(): string {
+        return this.profile.name;
     }
 
     // Get connection info without exposing password
     getConnectionInfo(): ConnectionInfo {
         return {
+            system: this.profile.name,
             url: this.baseUrl,
+            client: this.profile.client,
+            language: this.profile.language,
             username: this.username,
-            isConnected: Boolean(this.credentials), // Only check credentials for now
+            isConnected: this.session.isAuthenticated, // Only check credentials for now
         };
     }
 
@@ -102,6 +401,100 @@ export class AdtService {
         return this.request(`/repository/${objectPath}`);
     }
 
+    // Quick search by name; * and ? are wildcards, a plain name matches as
+    // a prefix. objectType filters by main type, e.g. CLAS or DDLS
+    async searchObjects(query: string, objectType?: string, maxResults: number = 50): Promise<AdtSearchResult[]> {
+        const pattern = query.trim().toUpperCase();
+        const params = new URLSearchParams({
+            operation: "quickSearch",
+            query: /[*?]/.test(pattern) ? pattern : `${pattern}*`,
+            maxResults: String(maxResults),
+        });
+        if (objectType) {
+            params.set("objectType", objectType.toUpperCase());
+        }
+        const response = await this.request(
+            `/repository/informationsystem/search?${params.toString()}`,
+            "GET",
+            undefined,
+            { Accept: "application/xml" }
+        );
+        const result = await parseAdtXml(response);
+
+        return toArray<any>(result?.objectReferences?.objectReference).map((reference) => ({
+            uri: reference.$?.uri,
+            type: reference.$?.type,
+            name: reference.$?.name,
+            packageName: reference.$?.packageName || undefined,
+            description: reference.$?.description || undefined,
+        }));
+    }
+
+    async objectExists(name: string, objectType: string): Promise<boolean> {
+        const results = await this.searchObjects(name, objectType, 10);
+        return results.some((result) => result.name?.toUpperCase() === name.trim().toUpperCase());
+    }
+
+    // Where-used list of an object, or of the symbol at line/column
+    // (1-based line, 0-based column) when a source URI is given
+    async findUsageReferences(objectUri: string, line?: number, column?: number): Promise<AdtUsageReference[]> {
+        const uri = line !== undefined ? `${objectUri}#start=${line},${column || 0}` : objectUri;
+        const body = `<?xml version="1.0" encoding="UTF-8"?>
+            <usagereferences:usageReferenceRequest xmlns:usagereferences="http://www.sap.com/adt/ris/usageReferences">
+                <usagereferences:affectedObjects/>
+            </usagereferences:usageReferenceRequest>`;
+        const response = await this.request(
+            `/repository/informationsystem/usageReferences?uri=${encodeURIComponent(uri)}`,
+            "POST",
+            body,
+            {
+                "Content-Type": "application/vnd.sap.adt.repository.usagereferences.request.v1+xml",
+                Accept: "application/vnd.sap.adt.repository.usagereferences.result.v1+xml",
+            }
+        );
+        const result = await parseAdtXml(response);
+
+        return toArray<any>(result?.usageReferenceResult?.referencedObjects?.referencedObject).map((reference) => ({
+            uri: reference.$?.uri,
+            objectIdentifier: reference.objectIdentifier ? textOf(reference.objectIdentifier) : undefined,
+            parentUri: reference.$?.parentUri || undefined,
+            isResult: reference.$?.isResult === "true",
+            name: reference.adtObject?.$?.name || "",
+            type: reference.adtObject?.$?.type || "",
+            description: reference.adtObject?.$?.description || undefined,
+            packageName: reference.adtObject?.packageRef?.$?.name || undefined,
+        }));
+    }
+
+    // Code lines of the using objects returned by findUsageReferences
+    async getUsageSnippets(objectIdentifiers: string[]): Promise<AdtUsageSnippet[]> {
+        if (objectIdentifiers.length === 0) {
+            return [];
+        }
+        const identifiers = objectIdentifiers
+            .map((identifier) => `<usagereferences:objectIdentifier optional="false">${escapeXml(identifier)}</usagereferences:objectIdentifier>`)
+            .join("");
+        const body = `<?xml version="1.0" encoding="UTF-8"?>
+            <usagereferences:usageSnippetRequest xmlns:usagereferences="http://www.sap.com/adt/ris/usageReferences">
+                <usagereferences:objectIdentifiers>${identifiers}</usagereferences:objectIdentifiers>
+                <usagereferences:affectedObjects/>
+            </usagereferences:usageSnippetRequest>`;
+        const response = await this.request("/repository/informationsystem/usageSnippets", "POST", body, {
+            "Content-Type": "application/vnd.sap.adt.repository.usagesnippets.request.v1+xml",
+            Accept: "application/vnd.sap.adt.repository.usagesnippets.result.v1+xml",
+        });
+        const result = await parseAdtXml(response);
+
+        return toArray<any>(result?.usageSnippetResult?.codeSnippetObjects?.codeSnippetObject).map((object) => ({
+            objectIdentifier: textOf(object.objectIdentifier),
+            snippets: toArray<any>(object.codeSnippets?.codeSnippet).map((snippet) => ({
+                uri: snippet.$?.uri,
+                content: textOf(snippet.content),
+                description: snippet.description ? textOf(snippet.description) : undefined,
+            })),
+        }));
+    }
+
     // Program Operations
     async getProgram(programName: string): Promise<string> {
         return this.request(`/programs/programs/${programName}/source/main`);
@@ -110,10 +503,9 @@ export class AdtService {
     async validateProgramSyntax(
         programName: string,
         source: string
-    ): Promise<any> {
-        return this.request(
-            `/programs/programs/${programName}/syntax`,
-            "POST",
+    ): Promise<AdtCheckMessage[]> {
+        return this.validateSyntax(
+            `/programs/programs/${programName}/source/main`,
             source
         );
     }
@@ -124,119 +516,438 @@ export class AdtService {
     }
 
     // ATC (ABAP Test Cockpit) Operations
-    async runAtcCheck(objectUri: string): Promise<any> {
-        return this.request(
-            `/atc/runs?objectUri=${encodeURIComponent(objectUri)}`,
-            "POST"
+    async getAtcCheckVariants(): Promise<{ name: string; description: string }[]> {
+        const response = await this.request("/atc/variants?data=*&maxItemCount=100", "GET", undefined, {
+            Accept: "application/xml",
+        });
+        const result = await parseAdtXml(response);
+        return toArray<any>(result?.namedItemList?.namedItem).map((item) => ({
+            name: item.name || "",
+            description: item.description || "",
+        }));
+    }
+
+    // System wide default check variant from the ATC customizing
+    async getAtcDefaultVariant(): Promise<string> {
+        const response = await this.request("/atc/customizing", "GET", undefined, {
+            Accept: "application/xml, application/vnd.sap.atc.customizing-v1+xml",
+        });
+        const result = await parseAdtXml(response);
+        const property = toArray<any>(result?.customizing?.properties?.property).find(
+            (p) => p.$?.name === "systemCheckVariant"
         );
+        return property?.$?.value || "DEFAULT";
     }
 
-    // Transport Operations
-    async getTransports(): Promise<any> {
-        return this.request("/cts/transports");
+    // Create a worklist, run ATC on the given objects (classes, packages,
+    // transports...) and poll until the worklist is complete
+    async runAtcCheck(objectUris: string[], checkVariant?: string): Promise<AdtAtcWorklist> {
+        const variant = checkVariant || (await this.getAtcDefaultVariant());
+        const worklistId = (
+            await this.request(`/atc/worklists?checkVariant=${encodeURIComponent(variant)}`, "POST", undefined, {
+                Accept: "text/plain",
+            })
+        ).trim();
+
+        const body = `<?xml version="1.0" encoding="UTF-8"?>
+            <atc:run maximumVerdicts="1000" xmlns:atc="http://www.sap.com/adt/atc">
+                <objectSets xmlns:adtcore="http://www.sap.com/adt/core">
+                    <objectSet kind="inclusive">
+                        <adtcore:objectReferences>
+                            ${objectUris
+                .map((uri) => `<adtcore:objectReference adtcore:uri="${escapeXml(uri)}"/>`)
+                .join("\n")}
+                        </adtcore:objectReferences>
+                    </objectSet>
+                </objectSets>
+            </atc:run>`;
+
+        await this.request(`/atc/runs?worklistId=${encodeURIComponent(worklistId)}`, "POST", body, {
+            "Content-Type": "application/xml",
+            Accept: "application/xml",
+        });
+
+        let worklist = await this.getAtcWorklist(worklistId);
+        for (let attempt = 0; !worklist.complete && attempt < 30; attempt++) {
+            await new Promise((resolve) => setTimeout(resolve, 1000));
+            worklist = await this.getAtcWorklist(worklistId);
+        }
+        return worklist;
     }
 
-    // Core functionality
-    private async request(
-        path: string,
-        method: string = "GET",
-        body?: string,
-        headers?: Record<string, string>
+    async getAtcWorklist(worklistId: string): Promise<AdtAtcWorklist> {
+        const response = await this.request(
+            `/atc/worklists/${encodeURIComponent(worklistId)}?includeExemptedFindings=false`,
+            "GET",
+            undefined,
+            { Accept: "application/atc.worklist.v1+xml" }
+        );
+        const result = await parseAdtXml(response);
+        const worklist = result?.worklist || {};
+
+        return {
+            id: worklist.$?.id || worklistId,
+            timestamp: worklist.$?.timestamp,
+            complete: worklist.$?.objectSetIsComplete !== "false",
+            objects: toArray<any>(worklist.objects?.object).map((object) => ({
+                uri: object.$?.uri,
+                type: object.$?.type,
+                name: object.$?.name,
+                packageName: object.$?.packageName,
+                author: object.$?.author,
+                findings: toArray<any>(object.findings?.finding).map((finding) => ({
+                    uri: finding.$?.uri,
+                    location: finding.$?.location || finding.$?.uri,
+                    priority: parseInt(finding.$?.priority || "3", 10),
+                    checkId: finding.$?.checkId,
+                    checkTitle: finding.$?.checkTitle || "",
+                    messageId: finding.$?.messageId,
+                    messageTitle: finding.$?.messageTitle || "",
+                    markerId: finding.$?.quickfixInfo,
+                    exemptionKind: finding.$?.exemptionKind || undefined,
+                    documentationUri: toArray<any>(finding.link).find((link) =>
+                        /documentation/.test(link.$?.rel || "")
+                    )?.$?.href,
+                })),
+            })),
+        };
+    }
+
+    // Exemption proposal for a finding, filled in and sent back to the server
+    async requestAtcExemption(
+        finding: AdtAtcFinding,
+        exemption: { reason: string; justification: string; approver: string }
     ): Promise<string> {
-        try {
-            const defaultHeaders: Record<string, string> = {
-                Authorization: `Basic ${this.credentials}`,
-                Accept: "*/*",
-            };
+        if (!finding.markerId) {
+            throw new Error("This finding cannot be exempted");
+        }
+        const proposal = await this.request(
+            `/atc/exemptions/apply?markerId=${encodeURIComponent(finding.markerId)}`,
+            "GET",
+            undefined,
+            { Accept: "application/atc.xmpt.v1+xml, application/atc.xmptapp.v1+xml" }
+        );
 
-            if (headers) {
-                Object.assign(defaultHeaders, headers);
-            }
+        const setElement = (xml: string, name: string, value: string) =>
+            xml.replace(
+                new RegExp(`<(\\w+:)?${name}(\\s[^>]*)?(/>|>[\\s\\S]*?</(\\w+:)?${name}>)`),
+                (_match, prefix = "") => `<${prefix}${name}>${escapeXml(value)}</${prefix}${name}>`
+            );
 
-            // For non-GET requests or if we don't have a CSRF token yet
-            if (method !== "GET" || !this.csrfToken) {
-                const tokenResponse = await fetch(`${this.baseUrl}/discovery`, {
-                    method: "GET",
-                    headers: {
-                        Accept: "*/*",
-                        Authorization: `Basic ${this.credentials}`,
-                        "X-CSRF-Token": "Fetch",
-                    },
-                });
+        let application = proposal.replace(/^<\?xml[^>]*\?>\s*/, "");
+        application = setElement(application, "approver", exemption.approver);
+        application = setElement(application, "reason", exemption.reason);
+        application = setElement(application, "justification", exemption.justification);
+        if (!/exemptionApplication/.test(application)) {
+            application = `<atcexmpt:exemptionApplication xmlns:atcexmpt="http://www.sap.com/adt/atc/exemption">${application}</atcexmpt:exemptionApplication>`;
+        }
+
+        const response = await this.request("/atc/exemptions/apply", "POST", application, {
+            "Content-Type": "application/atc.xmptapp.v1+xml",
+            Accept: "application/atc.xmpt.v1+xml, application/xml",
+        });
+        const result = await parseAdtXml(response);
+        return result?.status?.message || "Exemption requested";
+    }
+
+    // ABAP Unit Operations
+    async runUnitTests(objectUris: string[]): Promise<AdtUnitProgram[]> {
+        const body = `<?xml version="1.0" encoding="UTF-8"?>
+            <aunit:runConfiguration xmlns:aunit="http://www.sap.com/adt/aunit">
+                <external><coverage active="false"/></external>
+                <options>
+                    <uriType value="semantic"/>
+                    <testDeterminationStrategy sameProgram="true" assignedTests="false"/>
+                    <testRiskLevels harmless="true" dangerous="true" critical="true"/>
+                    <testDurations short="true" medium="true" long="true"/>
+                    <withNavigationUri enabled="true"/>
+                </options>
+                <adtcore:objectSets xmlns:adtcore="http://www.sap.com/adt/core">
+                    <objectSet kind="inclusive">
+                        <adtcore:objectReferences>
+                            ${objectUris
+                .map((uri) => `<adtcore:objectReference adtcore:uri="${escapeXml(uri)}"/>`)
+                .join("\n")}
+                        </adtcore:objectReferences>
+                    </objectSet>
+                </adtcore:objectSets>
+            </aunit:runConfiguration>`;
+
+        const contentType = await this.getMediaType(
+            "/abapunit/testruns",
+            "application/vnd.sap.adt.abapunit.testruns.config",
+            "application/vnd.sap.adt.abapunit.testruns.config.v4+xml"
+        );
+        const response = await this.request("/abapunit/testruns", "POST", body, {
+            "Content-Type": contentType,
+            Accept: "application/xml",
+        });
+        const result = await parseAdtXml(response);
+
+        const parseAlerts = (alerts: any): AdtUnitAlert[] =>
+            toArray<any>(alerts?.alert).map((alert) => ({
+                kind: alert.$?.kind || "",
+                severity: alert.$?.severity || "",
+                title: typeof alert.title === "string" ? alert.title : alert.title?._ || "",
+                details: flattenDetails(alert.details),
+                stack: toArray<any>(alert.stack?.stackEntry).map((entry) => ({
+                    uri: entry.$?.uri,
+                    description: entry.$?.description,
+                })),
+            }));
+
+        return toArray<any>(result?.runResult?.program).map((program) => ({
+            uri: program.$?.uri,
+            type: program.$?.type,
+            name: program.$?.name,
+            testClasses: toArray<any>(program.testClasses?.testClass).map((testClass) => ({
+                uri: testClass.$?.uri,
+                name: testClass.$?.name,
+                navigationUri: testClass.$?.navigationUri,
+                alerts: parseAlerts(testClass.alerts),
+                testMethods: toArray<any>(testClass.testMethods?.testMethod).map((method) => ({
+                    uri: method.$?.uri,
+                    name: method.$?.name,
+                    navigationUri: method.$?.navigationUri,
+                    executionTime: parseFloat(method.$?.executionTime || "0"),
+                    alerts: parseAlerts(method.alerts),
+                })),
+            })),
+        }));
+    }
 
-                this.csrfToken = tokenResponse.headers.get("x-csrf-token") || "";
-                const cookies = tokenResponse.headers.raw()["set-cookie"];
-                if (cookies && cookies.length > 0) {
-                    defaultHeaders["Cookie"] = cookies[1] || cookies[0];
+    // Transport Operations
+    // Modifiable requests of a user (default: the logged on user) with
+    // their tasks and objects
+    async getTransports(user?: string): Promise<AdtTransportRequest[]> {
+        const owner = (user || this.username || "").toUpperCase();
+        const response = await this.request(
+            `/cts/transportrequests?targets=true&user=${encodeURIComponent(owner)}&requestStatus=modifiable`,
+            "GET",
+            undefined,
+            { Accept: "application/vnd.sap.adt.transportorganizertree.v1+xml" }
+        );
+        const result = await parseAdtXml(response);
+
+        const parseObjects = (node: any): AdtTransportObject[] =>
+            toArray<any>(node.abap_object).map((object) => ({
+                pgmid: object.$?.pgmid,
+                type: object.$?.type,
+                name: object.$?.name,
+                info: object.$?.obj_info,
+                uri: object.$?.uri,
+            }));
+
+        const requests: AdtTransportRequest[] = [];
+        for (const category of ["workbench", "customizing"]) {
+            for (const target of toArray<any>(result?.root?.[category]?.target)) {
+                for (const request of toArray<any>(target.modifiable?.request)) {
+                    requests.push({
+                        number: request.$?.number,
+                        owner: request.$?.owner,
+                        description: request.$?.desc || "",
+                        status: request.$?.status,
+                        category,
+                        target: target.$?.name,
+                        objects: parseObjects(request),
+                        tasks: toArray<any>(request.task).map((task) => ({
+                            number: task.$?.number,
+                            owner: task.$?.owner,
+                            description: task.$?.desc || "",
+                            status: task.$?.status,
+                            objects: parseObjects(task),
+                        })),
+                    });
                 }
             }
+        }
+        return requests;
+    }
 
-            if (method !== "GET") {
-                defaultHeaders["X-CSRF-Token"] = this.csrfToken;
-            }
+    // Whether writing an object needs a transport and which requests fit
+    async checkTransport(objectUri: string, packageName: string = "", operation: "I" | "U" = "U"): Promise<AdtTransportInfo> {
+        const body = `<?xml version="1.0" encoding="UTF-8"?>
+            <asx:abap xmlns:asx="http://www.sap.com/abapxml" version="1.0">
+                <asx:values>
+                    <DATA>
+                        <PGMID/>
+                        <OBJECT/>
+                        <OBJECTNAME/>
+                        <DEVCLASS>${escapeXml(packageName)}</DEVCLASS>
+                        <SUPER_PACKAGE/>
+                        <OPERATION>${operation}</OPERATION>
+                        <URI>${escapeXml(objectUri)}</URI>
+                    </DATA>
+                </asx:values>
+            </asx:abap>`;
+        const contentType = "application/vnd.sap.as+xml; charset=UTF-8; dataname=com.sap.adt.transport.service.checkData";
+        const response = await this.request("/cts/transportchecks", "POST", body, {
+            "Content-Type": contentType,
+            Accept: contentType,
+        });
+        const result = await parseAdtXml(response);
+        const data = result?.abap?.values?.DATA || {};
 
-            const response = await fetch(`${this.baseUrl}${path}`, {
-                method,
-                headers: defaultHeaders,
-                body,
-            });
+        const lockedIn = toArray<any>(data.LOCKS?.CTS_OBJECT_LOCK)
+            .map((lock) => lock.LOCK_HOLDER?.REQ_HEADER?.TRKORR)
+            .find(Boolean);
 
-            const responseText = await response.text();
-            if (!response.ok) {
-                console.error("Response:", responseText);
-                throw new Error(
-                    `ADT request failed: ${response.statusText} (${response.status})\n${responseText}`
-                );
+        return {
+            recording: data.RECORDING === "X",
+            isLocal: data.DLVUNIT === "LOCAL" || data.DEVCLASS?.startsWith?.("$") === true,
+            package: data.DEVCLASS || packageName || undefined,
+            lockedIn,
+            requests: toArray<any>(data.REQUESTS?.CTS_REQUEST).map((request) => ({
+                number: request.REQ_HEADER?.TRKORR,
+                description: request.REQ_HEADER?.AS4TEXT || "",
+                owner: request.REQ_HEADER?.AS4USER,
+            })),
+        };
+    }
+
+    async createTransport(objectUri: string, packageName: string, description: string): Promise<string> {
+        const body = `<?xml version="1.0" encoding="ASCII"?>
+            <asx:abap xmlns:asx="http://www.sap.com/abapxml" version="1.0">
+                <asx:values>
+                    <DATA>
+                        <OPERATION>I</OPERATION>
+                        <DEVCLASS>${escapeXml(packageName)}</DEVCLASS>
+                        <REQUEST_TEXT>${escapeXml(description)}</REQUEST_TEXT>
+                        <REF>${escapeXml(objectUri)}</REF>
+                    </DATA>
+                </asx:values>
+            </asx:abap>`;
+        const response = await this.request("/cts/transports", "POST", body, {
+            "Content-Type": "application/vnd.sap.as+xml; charset=UTF-8; dataname=com.sap.adt.CreateCorrectionRequest",
+            Accept: "text/plain",
+        });
+        // The response is the request URI, e.g. /com.sap.cts/object_record/DEVK900001
+        return response.trim().split("/").pop() || "";
+    }
+
+    async releaseTransport(transportNumber: string): Promise<AdtActivationMessage[]> {
+        const response = await this.request(
+            `/cts/transportrequests/${encodeURIComponent(transportNumber)}/newreleasejobs`,
+            "POST",
+            undefined,
+            { Accept: "application/vnd.sap.adt.transportorganizer.v1+xml" }
+        );
+        const result = await parseAdtXml(response);
+
+        const messages: AdtActivationMessage[] = [];
+        for (const report of toArray<any>(result?.root?.releasereports?.checkReport)) {
+            if (report.$?.status && report.$.status !== "released") {
+                messages.push({ type: "E", text: report.$?.statusText || report.$.status });
+            }
+            for (const message of toArray<any>(report.checkMessageList?.checkMessage)) {
+                messages.push({ type: message.$?.type || "I", text: message.$?.shortText || "" });
             }
+        }
+        return messages;
+    }
+
+    async changeTransportOwner(transportNumber: string, newOwner: string): Promise<void> {
+        const body = `<?xml version="1.0" encoding="ASCII"?>
+            <tm:root xmlns:tm="http://www.sap.com/cts/adt/tm" tm:number="${escapeXml(transportNumber)}" tm:targetuser="${escapeXml(newOwner.toUpperCase())}" tm:useraction="changeowner"/>`;
+        await this.request(`/cts/transportrequests/${encodeURIComponent(transportNumber)}`, "PUT", body, {
+            "Content-Type": "application/vnd.sap.adt.transportorganizer.v1+xml",
+            Accept: "application/vnd.sap.adt.transportorganizer.v1+xml",
+        });
+    }
 
-            return responseText;
+    // Core functionality
+    private async request(
+        path: string,
+        method: string = "GET",
+        body?: string,
+        headers?: Record<string, string>,
+        send: AdtSessionRequest = (...args) => this.session.request(...args)
+    ): Promise<string> {
+        try {
+            const response = await send(path, method, body, headers);
+            return response.body;
         } catch (error) {
             console.error("Request failed:", error);
             throw error;
         }
     }
 
+    // Lock, write and unlock must share one stateful server session; only
+    // requests sent through the callback's request function belong to it
+    async withStatefulSession<T>(callback: (request: AdtRequest) => Promise<T>): Promise<T> {
+        return this.session.runStateful(send =>
+            callback((path, method, body, headers) => this.request(path, method, body, headers, send))
+        );
+    }
+
     // Authentication
     async setCredentials(username: string, password: string) {
         this.username = username;
-        this.credentials = Buffer.from(`${username}:${password}`).toString(
-            "base64"
-        );
+        this.session.setCredentials(username, password);
         // Test connection immediately
         await this.discoverService();
     }
 
-    async discoverService(): Promise<AdtDiscoveryResponse> {
-        try {
-            const response = await this.request("/discovery");
-            // Log the response for debugging
-            console.log("Discovery response:", response);
+    // Callers report failures; reconnecting in the background stays silent
+    async discoverService(): Promise<AdtServiceCatalog> {
+        const response = await this.request("/discovery", "GET", undefined, {
+            Accept: "application/atomsvc+xml",
+        });
+        this.catalog = await AdtServiceCatalog.parse(response);
+        return this.catalog;
+    }
 
-            // Consider any response as successful for now
-            vscode.window.showInformationMessage("ADT Service discovery successful");
-            return { links: [] }; // Return empty links for now
-        } catch (error) {
-            vscode.window.showErrorMessage(`ADT Service discovery failed: ${error}`);
-            throw error;
+    // Cached discovery document, loaded on first use
+    async getServiceCatalog(): Promise<AdtServiceCatalog> {
+        return this.catalog || this.discoverService();
+    }
+
+    async isFeatureAvailable(feature: AdtFeature): Promise<boolean> {
+        const catalog = await this.getServiceCatalog();
+        return catalog.hasFeature(feature);
+    }
+
+    // Newest media type version the server accepts for a collection
+    async getMediaType(
+        collectionPath: string,
+        baseType: string,
+        fallback: string
+    ): Promise<string> {
+        try {
+            const catalog = await this.getServiceCatalog();
+            return catalog.getMediaType(`/sap/bc/adt${collectionPath}`, baseType) || fallback;
+        } catch {
+            return fallback;
         }
     }
 
+    // Sections and members of a class or interface, as shown in the ADT outline
     async getObjectStructure(objectUri: string): Promise<AdtObjectStructure> {
-        try {
-            const response = await this.request(
-                `/repository/nodestructure?objectUri=${encodeURIComponent(objectUri)}`
-            );
-            // For now, return a simple structure
-            return {
-                objectName: objectUri.split("/").pop() || "",
-                objectType: "unknown",
-            };
-        } catch (error) {
-            vscode.window.showErrorMessage(
-                `Failed to get object structure: ${error}`
-            );
-            throw error;
+        const objectPath = AdtService.getObjectPath(objectUri.replace(/^\/sap\/bc\/adt/, ""));
+        const response = await this.request(
+            `${objectPath}/objectstructure?version=active&withShortDescriptions=true`,
+            "GET",
+            undefined,
+            { Accept: "application/vnd.sap.adt.objectstructure.v2+xml, application/vnd.sap.adt.objectstructure+xml" }
+        );
+        const root = (await parseAdtXml(response))?.objectStructureElement;
+
+        const structure: AdtObjectStructure = {
+            objectName: root?.$?.name || objectPath.split("/").pop() || "",
+            objectType: root?.$?.type || "",
+            description: root?.$?.description || undefined,
+            definitionHref: structureLink(root, "definitionIdentifier"),
+            sections: { public: [], protected: [], private: [] },
+            testClasses: [],
+        };
+        for (const element of toArray<any>(root?.objectStructureElement).map(parseStructureElement)) {
+            if (element.kind === "class" && /\/includes\/testclasses/.test(element.definitionHref || "")) {
+                structure.testClasses.push(element);
+            } else {
+                structure.sections[element.visibility].push(element);
+            }
         }
+        return structure;
     }
 
     async getSourceCode(objectUri: string): Promise<string> {
@@ -248,23 +959,187 @@ export class AdtService {
         }
     }
 
-    async validateSyntax(objectUri: string, sourceCode: string): Promise<any> {
-        try {
-            return await this.request(
-                `/programs/programs/${objectUri}/syntax`,
-                "POST",
-                sourceCode
-            );
-        } catch (error) {
-            vscode.window.showErrorMessage(`Syntax validation failed: ${error}`);
-            throw error;
+    // Syntax check of unsaved source through the check run framework. Works
+    // for any source based object: classes, programs, interfaces, CDS...
+    async validateSyntax(sourcePath: string, sourceCode: string): Promise<AdtCheckMessage[]> {
+        const objectUri = `/sap/bc/adt${AdtService.getObjectPath(sourcePath)}`;
+        const body = `<?xml version="1.0" encoding="UTF-8"?>
+            <chkrun:checkObjectList xmlns:chkrun="http://www.sap.com/adt/checkrun" xmlns:adtcore="http://www.sap.com/adt/core">
+                <chkrun:checkObject adtcore:uri="${escapeXml(objectUri)}" chkrun:version="inactive">
+                    <chkrun:artifacts>
+                        <chkrun:artifact chkrun:contentType="text/plain; charset=utf-8" chkrun:uri="/sap/bc/adt${escapeXml(sourcePath)}">
+                            <chkrun:content>${Buffer.from(sourceCode, "utf8").toString("base64")}</chkrun:content>
+                        </chkrun:artifact>
+                    </chkrun:artifacts>
+                </chkrun:checkObject>
+            </chkrun:checkObjectList>`;
+
+        const response = await this.request("/checkruns?reporters=abapCheckRun", "POST", body, {
+            "Content-Type": "application/vnd.sap.adt.checkobjects+xml",
+            Accept: "application/vnd.sap.adt.checkmessages+xml",
+        });
+
+        const result = await parseAdtXml(response);
+
+        const messages: AdtCheckMessage[] = [];
+        for (const report of toArray<any>(result?.checkRunReports?.checkReport)) {
+            for (const message of toArray<any>(report.checkMessageList?.checkMessage)) {
+                const longTextLink = toArray<any>(message.link).find((link) =>
+                    /longtext/i.test(link.$?.rel || "")
+                );
+                messages.push({
+                    uri: message.$?.uri || "",
+                    type: message.$?.type || "E",
+                    text: message.$?.shortText || "",
+                    code: message.$?.code,
+                    category: message.$?.category,
+                    longTextUri: longTextLink?.$?.href,
+                });
+            }
+        }
+        return messages;
+    }
+
+    // Browser URL of an ADT resource, e.g. a message long text
+    getWebUrl(adtUri: string): string {
+        const path = adtUri.startsWith("/sap/bc/adt") ? adtUri.substring("/sap/bc/adt".length) : adtUri;
+        return this.session.buildUrl(path);
+    }
+
+    // Navigation target of the symbol at a position of a (possibly unsaved)
+    // source. Lines are 1-based, columns 0-based; the returned URI carries
+    // the target position as #start=line,column
+    async findDefinition(
+        sourcePath: string,
+        source: string,
+        line: number,
+        startColumn: number,
+        endColumn: number,
+        implementation: boolean = false
+    ): Promise<AdtObjectReference | undefined> {
+        const uri = `/sap/bc/adt${sourcePath}#start=${line},${startColumn};end=${line},${endColumn}`;
+        const params = new URLSearchParams({
+            uri,
+            filter: implementation ? "implementation" : "definition",
+        });
+        const response = await this.request(`/navigation/target?${params.toString()}`, "POST", source, {
+            "Content-Type": "text/plain",
+            Accept: "application/xml",
+        });
+        const result = await parseAdtXml(response);
+        const reference = result?.objectReference?.$;
+        if (!reference?.uri) {
+            return undefined;
         }
+        return {
+            uri: reference.uri,
+            name: reference.name || "",
+            type: reference.type || undefined,
+            parentUri: reference.parentUri || undefined,
+        };
+    }
+
+    // Code completion at a position of a (possibly unsaved) source. Lines
+    // are 1-based, columns 0-based
+    async getCompletionProposals(
+        sourcePath: string,
+        source: string,
+        line: number,
+        column: number
+    ): Promise<AdtCompletionProposal[]> {
+        const params = new URLSearchParams({
+            uri: `/sap/bc/adt${sourcePath}#start=${line},${column}`,
+            signalCompleteness: "true",
+        });
+        const response = await this.request(`/abapsource/codecompletion/proposal?${params.toString()}`, "POST", source, {
+            "Content-Type": "application/*",
+            Accept: "application/*",
+        });
+        const result = await parseAdtXml(response);
+
+        return toArray<any>(result?.abap?.values?.DATA?.SCC_COMPLETION)
+            .filter((proposal) => proposal.IDENTIFIER && proposal.IDENTIFIER !== "@end")
+            .map((proposal) => ({
+                identifier: proposal.IDENTIFIER,
+                kind: parseInt(proposal.KIND || "0", 10),
+                prefixLength: parseInt(proposal.PREFIXLENGTH || "0", 10),
+                isMeta: proposal.IS_META === "X",
+            }));
+    }
+
+    // Element info of the symbol at a position, as shown by the ADT hover
+    async getElementInfo(
+        sourcePath: string,
+        source: string,
+        line: number,
+        column: number
+    ): Promise<AdtElementInfo | undefined> {
+        const params = new URLSearchParams({ uri: `/sap/bc/adt${sourcePath}#start=${line},${column}` });
+        const response = await this.request(`/abapsource/codecompletion/elementinfo?${params.toString()}`, "POST", source, {
+            "Content-Type": "text/plain",
+            Accept: "application/vnd.sap.adt.elementinfo+xml, application/xml",
+        });
+        if (!response.trim()) {
+            return undefined;
+        }
+        const result = await parseAdtXml(response);
+
+        const parseElement = (element: any): AdtElementInfo => ({
+            name: element.$?.name || "",
+            type: element.$?.type || "",
+            href: toArray<any>(element.link).map((link) => link.$?.href).find(Boolean),
+            documentation: element.documentation ? textOf(element.documentation) : undefined,
+            properties: toArray<any>(element.properties?.entry).map((entry) => ({
+                key: entry.$?.key || "",
+                value: textOf(entry),
+            })),
+            components: toArray<any>(element.elementInfos?.elementInfo).map(parseElement),
+        });
+        return result?.elementInfo ? parseElement(result.elementInfo) : undefined;
+    }
+
+    // Full pattern of a proposal, e.g. a method call with its parameters
+    async getCompletionInsertion(
+        sourcePath: string,
+        source: string,
+        line: number,
+        column: number,
+        identifier: string
+    ): Promise<string> {
+        const params = new URLSearchParams({
+            uri: `/sap/bc/adt${sourcePath}#start=${line},${column}`,
+            patternKey: identifier,
+        });
+        return this.request(`/abapsource/codecompletion/insertion?${params.toString()}`, "POST", source, {
+            "Content-Type": "application/*",
+            Accept: "text/plain",
+        });
+    }
+
+    // Format source with the pretty printer settings stored for the user
+    async prettyPrint(source: string): Promise<string> {
+        return this.request("/abapsource/prettyprinter", "POST", source, {
+            "Content-Type": "text/plain; charset=utf-8",
+            Accept: "text/plain",
+        });
+    }
+
+    async getPrettyPrinterSettings(): Promise<AdtPrettyPrinterSettings> {
+        const response = await this.request("/abapsource/prettyprinter/settings", "GET", undefined, {
+            Accept: "application/vnd.sap.adt.ppsettings.v2+xml, application/xml",
+        });
+        const result = await parseAdtXml(response);
+        const settings = result?.PrettyPrinterSettings?.$ || {};
+        return {
+            indentation: settings.indentation !== "false",
+            style: settings.style || "keywordUpper",
+        };
     }
 
     // Add new method for package operations
     async getPackages(parentUri?: string): Promise<AdtPackage[]> {
         try {
-            if (!this.credentials) {
+            if (!this.session.isAuthenticated) {
                 throw new Error("Not connected to SAP");
             }
 
@@ -272,14 +1147,8 @@ export class AdtService {
                 ? `/repository/nodestructure?parent_uri=/sap/bc/adt/repository/informationsystem/mainpackages/${parentUri}`
                 : "/repository/nodestructure?parent_uri=/sap/bc/adt/repository/informationsystem/mainpackages";
 
-            const path2 =
-                "/repository/nodestructure?parent_type=DEVC/K&withShortDescriptions=${true}&parent_name=ZTEST61";
             const response = await this.request(path, "POST");
 
-            const response2 = await this.request(path2, "POST");
-
-            console.log("Package response:", response2); // For debugging
-
             // Parse XML response
             const parser = new Parser({ explicitArray: false });
             const result = await parser.parseStringPromise(response);
@@ -305,7 +1174,6 @@ export class AdtService {
                 }
             });
 
-            console.log("Parsed packages:", packages); // Debug output
             return packages;
         } catch (error) {
             console.error("Failed to get packages:", error);
@@ -314,19 +1182,17 @@ export class AdtService {
     }
 
     disconnect() {
-        this.credentials = "";
-        this.csrfToken = "";
-        this.username = undefined;
+        this.session.clear();
+        this.catalog = undefined;
+        this.username = this.profile.user;
     }
 
-    async createClass(classDetails: ClassDetails): Promise<void> {
+    async createClass(classDetails: ClassDetails, selectTransport?: TransportSelector): Promise<void> {
         // First validate the class name
-        const validationPath = `/oo/validation/objectname?objname=${encodeURIComponent(
-            classDetails.name
-        )}&type=CLAS/OC`;
-        await this.request(validationPath, "GET", undefined, {
-            Accept: "application/json",
-        });
+        const nameError = await this.validateClassName(classDetails.name, classDetails.description, classDetails.package || "");
+        if (nameError) {
+            throw new Error(nameError);
+        }
 
         // Then create the class
         const path = "/oo/classes";
@@ -334,36 +1200,109 @@ export class AdtService {
             <class:abapClass xmlns:class="http://www.sap.com/adt/oo/classes"
                             xmlns:adtcore="http://www.sap.com/adt/core"
                             abapLanguageVersion="standard">
-                <adtcore:name>${classDetails.name}</adtcore:name>
-                <adtcore:description>${classDetails.description
-            }</adtcore:description>
+                <adtcore:name>${escapeXml(classDetails.name)}</adtcore:name>
+                <adtcore:description>${escapeXml(classDetails.description)}</adtcore:description>
                 <adtcore:packageRef>
-                    <adtcore:name>${classDetails.package}</adtcore:name>
+                    <adtcore:name>${escapeXml(classDetails.package || "")}</adtcore:name>
                 </adtcore:packageRef>
-                <class:superClass>${classDetails.superclass || ""
-            }</class:superClass>
+                <class:superClass>${escapeXml(classDetails.superclass || "")}</class:superClass>
                 ${classDetails.interfaces
-                ?.map((i) => `<class:interface>${i}</class:interface>`)
+                ?.map((i) => `<class:interface>${escapeXml(i)}</class:interface>`)
                 .join("\n") || ""
             }
             </class:abapClass>`;
 
-        console.log("Creating class:", body);
+        // Non-local packages record the new class in a transport request
+        const classUri = `/sap/bc/adt/oo/classes/${encodeURIComponent(classDetails.name.toLowerCase())}`;
+        const transport = await this.selectTransportFor(
+            classUri,
+            selectTransport,
+            classDetails.package,
+            "I"
+        );
 
         // Create the class
-        await this.request(path, "POST", body, {
-            "Content-Type": "application/vnd.sap.adt.oo.classes.v2+xml",
-            Accept: "application/vnd.sap.adt.oo.classes.v2+xml",
+        const mediaType = await this.getMediaType(
+            path,
+            "application/vnd.sap.adt.oo.classes",
+            "application/vnd.sap.adt.oo.classes.v2+xml"
+        );
+        const createPath = transport ? `${path}?corrNr=${encodeURIComponent(transport)}` : path;
+        await this.request(createPath, "POST", body, {
+            "Content-Type": mediaType,
+            Accept: mediaType,
         });
 
         // Finally create the source
-        const sourcePath = `/oo/classes/${classDetails.name}/source/main`;
+        const sourcePath = `/oo/classes/${encodeURIComponent(classDetails.name.toLowerCase())}/source/main`;
         const sourceBody = this.generateClassSource(classDetails);
 
-        await this.request(sourcePath, "PUT", sourceBody, {
-            "Content-Type": "text/plain; charset=utf-8",
-            Accept: "text/plain",
+        await this.saveObjectSource(sourcePath, sourceBody, transport || selectTransport);
+    }
+
+    // Server side check of a new object's name; returns the error text
+    async validateNewObject(details: NewObjectDetails): Promise<string | undefined> {
+        const objectType = getCreatableType(details.type);
+        if (!objectType) {
+            throw new Error(`Creating objects of type ${details.type} is not supported`);
+        }
+        const params = new URLSearchParams({ objtype: details.type, objname: details.name, description: details.description });
+        if (objectType.containerLabel) {
+            params.set("fugrname", details.container || "");
+        } else {
+            params.set("packagename", details.package);
+        }
+        return this.runNameValidation(objectType.validationPath, params, details.name);
+    }
+
+    async validateClassName(name: string, description: string, packageName: string): Promise<string | undefined> {
+        const params = new URLSearchParams({
+            objtype: "CLAS/OC",
+            objname: name,
+            description: description || name,
+            packagename: packageName,
+        });
+        return this.runNameValidation("/oo/validation/objectname", params, name);
+    }
+
+    private async runNameValidation(path: string, params: URLSearchParams, name: string): Promise<string | undefined> {
+        const response = await this.request(`${path}?${params.toString()}`, "POST", undefined, {
+            Accept: "application/vnd.sap.as+xml",
         });
+        const data = (await parseAdtXml(response))?.abap?.values?.DATA || {};
+        return data.SEVERITY === "ERROR" ? data.SHORT_TEXT || `${name} is not a valid name` : undefined;
+    }
+
+    // Creates any of the CREATABLE_TYPES and writes its initial source.
+    // Returns the source path, or undefined for objects without source
+    async createObject(details: NewObjectDetails, selectTransport?: TransportSelector): Promise<string | undefined> {
+        const objectType = getCreatableType(details.type);
+        if (!objectType) {
+            throw new Error(`Creating objects of type ${details.type} is not supported`);
+        }
+        const objectPath = objectPathOf(objectType, details);
+        // Function modules are recorded with the package of their group
+        const transport = await this.selectTransportFor(
+            `/sap/bc/adt${objectPath}`,
+            selectTransport,
+            objectType.containerLabel ? undefined : details.package,
+            "I"
+        );
+
+        const collectionPath = objectType.collectionPath(details);
+        const createPath = transport ? `${collectionPath}?corrNr=${encodeURIComponent(transport)}` : collectionPath;
+        const responsible = (this.getConnectionInfo().username || "").toUpperCase();
+        await this.request(createPath, "POST", creationBody(objectType, details, responsible), {
+            "Content-Type": "application/*",
+            Accept: "application/*",
+        });
+
+        if (!objectType.sourceTemplate) {
+            return undefined;
+        }
+        const sourcePath = `${objectPath}/source/main`;
+        await this.saveObjectSource(sourcePath, objectType.sourceTemplate(details), transport || selectTransport);
+        return sourcePath;
     }
 
     private generateClassSource(classDetails: ClassDetails): string {
@@ -516,6 +1455,7 @@ ENDCLASS.`;
                         facet: obj.$.facet?.value || facetValue,
                         type: obj.$.type?.value,
                         vituri: obj.$.vituri?.value,
+                        uri: obj.$.uri?.value,
                         isExpandable: isExpandable,
                         hasChildrenOfSameFacet: obj.$.hasChildrenOfSameFacet?.value,
                         whatisclicked: "false",
@@ -611,9 +1551,9 @@ ENDCLASS.`;
         }
     }
 
-    async getClassSource(className: string): Promise<string> {
+    async getClassSource(className: string, includeType = "main"): Promise<string> {
         try {
-            const path = `/oo/classes/${className}/source/main`;
+            const path = `/oo/classes/${className}/${classIncludeSegment(includeType)}`;
             const response = await this.request(path, "GET", undefined, {
                 Accept: "text/plain",
                 "Content-Type": "text/plain",
@@ -626,10 +1566,53 @@ ENDCLASS.`;
         }
     }
 
-    async getObjectSource(uri: string): Promise<string> {
+    // Includes listed in the class metadata; the test classes include only
+    // shows up once it has been created
+    async getClassIncludes(classPath: string): Promise<AdtClassInclude[]> {
+        const response = await this.request(classPath, "GET", undefined, {
+            Accept: "application/vnd.sap.adt.oo.classes.v4+xml, application/vnd.sap.adt.oo.classes.v2+xml, application/vnd.sap.adt.oo.classes+xml",
+        });
+        const result = await parseAdtXml(response);
+        return toArray<any>(result?.abapClass?.include)
+            .filter((include) => include.$?.includeType)
+            .map((include) => ({
+                includeType: include.$.includeType,
+                name: include.$.name || include.$.includeType,
+                sourcePath: `${classPath}/${classIncludeSegment(include.$.includeType)}`,
+            }));
+    }
+
+    async createTestClassInclude(classPath: string, selectTransport?: TransportSelector): Promise<string> {
+        const body = `<?xml version="1.0" encoding="UTF-8"?>
+            <class:abapClassInclude xmlns:class="http://www.sap.com/adt/oo/classes" xmlns:adtcore="http://www.sap.com/adt/core"
+                adtcore:name="dummy" class:includeType="testclasses"/>`;
+
+        await this.withStatefulSession(async (request) => {
+            const lock = await this.lockObject(classPath, request);
+            try {
+                const params = new URLSearchParams({ lockHandle: lock.lockHandle });
+                const corrNr = lock.transport || await this.resolveTransport(`/sap/bc/adt${classPath}`, lock, selectTransport);
+                if (corrNr) {
+                    params.set("corrNr", corrNr);
+                }
+                await request(`${classPath}/includes?${params.toString()}`, "POST", body, {
+                    "Content-Type": "application/vnd.sap.adt.oo.classincludes+xml",
+                });
+            } finally {
+                await this.unlockObject(classPath, lock.lockHandle, request).catch(error =>
+                    console.error("Failed to unlock object:", error)
+                );
+            }
+        });
+        return `${classPath}/${classIncludeSegment("testclasses")}`;
+    }
+
+    // Source as plain text; pass another media type for the XML metadata of
+    // objects without source
+    async getObjectSource(uri: string, accept: string = "text/plain"): Promise<string> {
         try {
             const response = await this.request(uri, "GET", undefined, {
-                Accept: "text/plain",
+                Accept: accept,
                 "Content-Type": "text/plain",
             });
             return response;
@@ -638,4 +1621,269 @@ ENDCLASS.`;
             throw error;
         }
     }
+
+    // Object URI of a source, e.g. /oo/classes/zcl_x for /oo/classes/zcl_x/source/main
+    static getObjectPath(sourcePath: string): string {
+        const match = /^(.*?)\/(?:source|includes)\//.exec(sourcePath);
+        return match ? match[1] : sourcePath;
+    }
+
+    // Locks only hold in a stateful session: pass the withStatefulSession request
+    async lockObject(objectPath: string, request: AdtRequest): Promise<AdtLock> {
+        try {
+            const response = await request(
+                `${objectPath}?_action=LOCK&accessMode=MODIFY`,
+                "POST",
+                undefined,
+                {
+                    Accept: "application/vnd.sap.as+xml;charset=UTF-8;dataname=com.sap.adt.lock.result;q=0.8, application/vnd.sap.as+xml;charset=UTF-8;dataname=com.sap.adt.lock.result2;q=0.9",
+                }
+            );
+
+            const parser = new Parser({ explicitArray: false });
+            const result = await parser.parseStringPromise(response);
+            const data = result?.["asx:abap"]?.["asx:values"]?.DATA || {};
+
+            return {
+                lockHandle: data.LOCK_HANDLE || "",
+                transport: data.CORRNR || undefined,
+                transportUser: data.CORRUSER || undefined,
+                transportText: data.CORRTEXT || undefined,
+                isLocal: data.IS_LOCAL === "X",
+            };
+        } catch (error) {
+            // Lock messages don't always say which object they are about
+            const objectName = decodeURIComponent(objectPath.split("/").pop() || objectPath).toUpperCase();
+            if (error instanceof AdtError && error.kind === "locked" && !error.message.toUpperCase().includes(objectName)) {
+                throw error.withMessage(`${objectName}: ${error.message}`);
+            }
+            throw error;
+        }
+    }
+
+    private async resolveTransport(
+        objectUri: string,
+        lock: AdtLock,
+        selectTransport?: TransportSelector
+    ): Promise<string | undefined> {
+        if (lock.isLocal) {
+            return undefined;
+        }
+        return this.selectTransportFor(objectUri, selectTransport);
+    }
+
+    // Run the transport check and ask for a request when the package records changes
+    private async selectTransportFor(
+        objectUri: string,
+        selectTransport?: TransportSelector,
+        packageName?: string,
+        operation: "I" | "U" = "U"
+    ): Promise<string | undefined> {
+        const info = await this.checkTransport(objectUri, packageName, operation);
+        if (info.lockedIn) {
+            return info.lockedIn;
+        }
+        if (info.isLocal || !info.recording) {
+            return undefined;
+        }
+        const selected = selectTransport ? await selectTransport(objectUri, info) : undefined;
+        if (!selected) {
+            throw new Error("A transport request is required to change this object");
+        }
+        return selected;
+    }
+
+    async unlockObject(objectPath: string, lockHandle: string, request: AdtRequest): Promise<void> {
+        await request(
+            `${objectPath}?_action=UNLOCK&lockHandle=${encodeURIComponent(lockHandle)}`,
+            "POST"
+        );
+    }
+
+    // Lock, write and unlock in one stateful session. The transport from the
+    // lock result is used unless a request is passed explicitly; otherwise
+    // the transport check decides whether the selector has to ask for one
+    async saveObjectSource(
+        sourcePath: string,
+        source: string,
+        transport?: string | TransportSelector
+    ): Promise<void> {
+        const objectPath = AdtService.getObjectPath(sourcePath);
+
+        await this.withStatefulSession(async (request) => {
+            const lock = await this.lockObject(objectPath, request);
+            try {
+                const params = new URLSearchParams({ lockHandle: lock.lockHandle });
+                const corrNr = typeof transport === "string"
+                    ? transport
+                    : lock.transport || await this.resolveTransport(`/sap/bc/adt${objectPath}`, lock, transport);
+                if (corrNr) {
+                    params.set("corrNr", corrNr);
+                }
+                await request(`${sourcePath}?${params.toString()}`, "PUT", source, {
+                    "Content-Type": "text/plain; charset=utf-8",
+                    Accept: "text/plain",
+                });
+            } finally {
+                // Don't let a failed unlock hide the write error
+                await this.unlockObject(objectPath, lock.lockHandle, request).catch(error =>
+                    console.error("Failed to unlock object:", error)
+                );
+            }
+        });
+    }
+
+    // Activation Operations
+    async activateObjects(objects: AdtObjectReference[]): Promise<AdtActivationResult> {
+        const body = `<?xml version="1.0" encoding="UTF-8"?>
+            <adtcore:objectReferences xmlns:adtcore="http://www.sap.com/adt/core">
+                ${objects
+                .map((o) => `<adtcore:objectReference adtcore:uri="${escapeXml(o.uri)}" adtcore:name="${escapeXml(o.name)}"/>`)
+                .join("\n")}
+            </adtcore:objectReferences>`;
+
+        const response = await this.request(
+            "/activation?method=activate&preauditRequested=true",
+            "POST",
+            body,
+            {
+                "Content-Type": "application/xml",
+                Accept: "application/xml",
+            }
+        );
+
+        // An empty body means everything was activated
+        if (!response.trim()) {
+            return { success: true, messages: [], inactiveObjects: [] };
+        }
+
+        const result = await parseAdtXml(response);
+
+        if (result?.inactiveObjects) {
+            return {
+                success: false,
+                messages: [],
+                inactiveObjects: this.parseInactiveObjects(result.inactiveObjects),
+            };
+        }
+
+        const messages: AdtActivationMessage[] = toArray(result?.messages?.msg).map((msg: any) => ({
+            type: msg.$?.type || "E",
+            text: toArray(msg.shortText?.txt).join(" ") || msg.shortText || "",
+            href: msg.$?.href,
+            line: msg.$?.line ? parseInt(msg.$.line, 10) : undefined,
+            objectDescription: msg.$?.objDescr,
+        }));
+
+        return {
+            success: !messages.some((m) => m.type === "E" || m.type === "A"),
+            messages,
+            inactiveObjects: [],
+        };
+    }
+
+    async getInactiveObjects(): Promise<AdtInactiveObject[]> {
+        const response = await this.request("/activation/inactiveobjects", "GET", undefined, {
+            Accept: "application/vnd.sap.adt.inactivectsobjects.v1+xml, application/xml;q=0.8",
+        });
+        if (!response.trim()) {
+            return [];
+        }
+
+        const result = await parseAdtXml(response);
+        return this.parseInactiveObjects(result?.inactiveObjects);
+    }
+
+    private parseInactiveObjects(inactiveObjects: any): AdtInactiveObject[] {
+        return toArray(inactiveObjects?.entry)
+            .filter((entry: any) => entry.object?.ref?.$?.uri)
+            .map((entry: any) => {
+                const ref = entry.object.ref.$;
+                return {
+                    uri: ref.uri,
+                    name: ref.name,
+                    type: ref.type,
+                    parentUri: ref.parentUri,
+                    user: entry.object.$?.user,
+                    deleted: entry.object.$?.deleted === "true",
+                    transport: entry.transport?.ref?.$?.name,
+                };
+            });
+    }
+}
+
+// Parse ADT XML with namespace prefixes stripped from tags and attributes
+async function parseAdtXml(xml: string): Promise<any> {
+    const parser = new Parser({
+        explicitArray: false,
+        tagNameProcessors: [(name) => name.replace(/^[^:]+:/, "")],
+        attrNameProcessors: [(name) => name.replace(/^[^:]+:/, "")],
+    });
+    return parser.parseStringPromise(xml);
+}
+
+// Nested <details><detail text=".."> of ABAP Unit alerts as flat lines
+function flattenDetails(details: any): string[] {
+    return toArray<any>(details?.detail).flatMap((detail) => [
+        ...(detail.$?.text ? [detail.$.text] : []),
+        ...flattenDetails(detail.details),
+    ]);
+}
+
+function classIncludeSegment(includeType: string): string {
+    return includeType === "main" ? "source/main" : `includes/${includeType}`;
+}
+
+const STRUCTURE_KINDS: Record<string, AdtStructureElementKind> = {
+    OM: "method",
+    OA: "attribute",
+    OE: "event",
+    OT: "type",
+    ON: "alias",
+    OI: "interface",
+    OC: "class",
+    OCL: "class",
+};
+
+function parseStructureElement(element: any): AdtStructureElement {
+    const [, subType = ""] = (element.$?.type || "").split("/");
+    const visibility = element.$?.visibility;
+    return {
+        name: element.$?.name || "",
+        type: element.$?.type || "",
+        kind: STRUCTURE_KINDS[subType] || "other",
+        visibility: visibility === "protected" || visibility === "private" ? visibility : "public",
+        level: element.$?.level || undefined,
+        description: element.$?.description || undefined,
+        definitionHref: structureLink(element, "definitionIdentifier"),
+        implementationHref: structureLink(element, "implementationIdentifier"),
+        children: toArray<any>(element.objectStructureElement).map(parseStructureElement),
+    };
+}
+
+// href of an <atom:link> by the last segment of its relation
+function structureLink(element: any, relation: string): string | undefined {
+    return toArray<any>(element?.link).find((link) =>
+        (link.$?.rel || "").endsWith(`/${relation}`)
+    )?.$?.href;
+}
+
+// Text of an element that may also carry attributes
+function textOf(node: any): string {
+    return typeof node === "string" ? node : node?._ || "";
+}
+
+function toArray<T>(value: T | T[] | undefined): T[] {
+    if (value === undefined || value === null) {
+        return [];
+    }
+    return Array.isArray(value) ? value : [value];
+}
+
+function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
 }
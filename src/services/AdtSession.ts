@@ -0,0 +1,193 @@
+import fetch, { Headers } from "node-fetch";
+import { AdtError } from "./AdtError";
+
+export interface AdtSessionOptions {
+    baseUrl: string;
+    client: string;
+    language: string;
+}
+
+export interface AdtResponse {
+    status: number;
+    statusText: string;
+    headers: Headers;
+    body: string;
+}
+
+export type AdtSessionType = "stateful" | "stateless";
+
+// A request bound to one session type, handed to runStateful callbacks
+export type AdtSessionRequest = (
+    path: string,
+    method?: string,
+    body?: string,
+    headers?: Record<string, string>
+) => Promise<AdtResponse>;
+
+// HTTP layer for ADT: keeps the cookie jar and CSRF token across calls, so
+// server-side session state such as locks survives
+export class AdtSession {
+    private cookies = new Map<string, string>();
+    private csrfToken: string = "";
+    private authorization: string = "";
+    private statefulQueue: Promise<unknown> = Promise.resolve();
+
+    constructor(private options: AdtSessionOptions) {}
+
+    get isAuthenticated(): boolean {
+        return Boolean(this.authorization);
+    }
+
+    setCredentials(username: string, password: string) {
+        this.authorization = `Basic ${Buffer.from(`${username}:${password}`).toString("base64")}`;
+        this.reset();
+    }
+
+    clear() {
+        this.authorization = "";
+        this.reset();
+    }
+
+    // Drop all server-side session state
+    reset() {
+        this.cookies.clear();
+        this.csrfToken = "";
+    }
+
+    // Run calls that depend on server-side state (lock, write, unlock) in
+    // one stateful session. Only the requests made through the callback's
+    // request function are stateful; everything else stays stateless.
+    // Sections run one after another and must not be nested
+    runStateful<T>(callback: (request: AdtSessionRequest) => Promise<T>): Promise<T> {
+        const section = this.statefulQueue.then(() =>
+            callback((path, method, body, headers) => this.request(path, method, body, headers, "stateful"))
+        );
+        this.statefulQueue = section.catch(() => undefined);
+        return section;
+    }
+
+    // Every ADT call runs in the profile's client and logon language
+    buildUrl(path: string): string {
+        const separator = path.includes("?") ? "&" : "?";
+        const params = new URLSearchParams({
+            "sap-client": this.options.client,
+            "sap-language": this.options.language,
+        });
+        return `${this.options.baseUrl}${path}${separator}${params.toString()}`;
+    }
+
+    async fetchCsrfToken(): Promise<string> {
+        const response = await this.send("/discovery", "GET", undefined, {
+            Accept: "*/*",
+            "X-CSRF-Token": "Fetch",
+        });
+        this.csrfToken = response.headers.get("x-csrf-token") || "";
+        return this.csrfToken;
+    }
+
+    async request(
+        path: string,
+        method: string = "GET",
+        body?: string,
+        headers?: Record<string, string>,
+        sessionType: AdtSessionType = "stateless"
+    ): Promise<AdtResponse> {
+        if (method !== "GET" && !this.csrfToken) {
+            await this.fetchCsrfToken();
+        }
+
+        let response = await this.send(path, method, body, headers, sessionType);
+
+        // Tokens expire with the server session; refresh once and retry
+        if (method !== "GET" && this.isCsrfFailure(response)) {
+            await this.fetchCsrfToken();
+            response = await this.send(path, method, body, headers, sessionType);
+        }
+
+        if (response.status < 200 || response.status >= 300) {
+            throw await AdtError.fromResponse(response.status, response.statusText, response.body);
+        }
+
+        return response;
+    }
+
+    private async send(
+        path: string,
+        method: string,
+        body?: string,
+        headers?: Record<string, string>,
+        sessionType: AdtSessionType = "stateless"
+    ): Promise<AdtResponse> {
+        const requestHeaders: Record<string, string> = {
+            Accept: "*/*",
+            "X-sap-adt-sessiontype": sessionType,
+        };
+        if (this.authorization) {
+            requestHeaders["Authorization"] = this.authorization;
+        }
+        if (this.csrfToken && method !== "GET") {
+            requestHeaders["X-CSRF-Token"] = this.csrfToken;
+        }
+        if (this.cookies.size > 0) {
+            requestHeaders["Cookie"] = Array.from(this.cookies)
+                .map(([name, value]) => `${name}=${value}`)
+                .join("; ");
+        }
+        if (headers) {
+            Object.assign(requestHeaders, headers);
+        }
+
+        const response = await fetch(this.buildUrl(path), {
+            method,
+            headers: requestHeaders,
+            body,
+        });
+
+        this.storeCookies(response.headers.raw()["set-cookie"] || []);
+
+        return {
+            status: response.status,
+            statusText: response.statusText,
+            headers: response.headers,
+            body: await response.text(),
+        };
+    }
+
+    private storeCookies(setCookieHeaders: string[]) {
+        for (const header of setCookieHeaders) {
+            const [pair, ...attributes] = header.split(";");
+            const separator = pair.indexOf("=");
+            if (separator <= 0) {
+                continue;
+            }
+            const name = pair.substring(0, separator).trim();
+            const value = pair.substring(separator + 1).trim();
+
+            const expired = attributes.some(attribute => {
+                const [key, attributeValue = ""] = attribute.split("=");
+                switch (key.trim().toLowerCase()) {
+                    case "max-age":
+                        return parseInt(attributeValue, 10) <= 0;
+                    case "expires":
+                        return new Date(attributeValue).getTime() < Date.now();
+                    default:
+                        return false;
+                }
+            });
+
+            if (expired || !value) {
+                this.cookies.delete(name);
+            } else {
+                this.cookies.set(name, value);
+            }
+        }
+    }
+
+    private isCsrfFailure(response: AdtResponse): boolean {
+        return (
+            response.status === 403 &&
+            (response.headers.get("x-csrf-token")?.toLowerCase() === "required" ||
+                response.body.includes("CSRF token validation failed"))
+        );
+    }
+}
@@ -0,0 +1,257 @@
+import * as vscode from 'vscode';
+import { AdtService, ConnectionProfile } from './AdtService';
+import { ADT_SCHEME } from '../providers/AdtFileSystemProvider';
+
+const ACTIVE_CONNECTION_KEY = 'abap-tools.activeConnection';
+const CREDENTIALS_KEY_PREFIX = 'abap-tools.credentials.';
+
+// Settings the connection profiles are built from; others don't touch them
+const PROFILE_SETTINGS = ['connections', 'defaultHost', 'defaultClient', 'defaultLanguage', 'defaultPort'];
+
+interface StoredCredentials {
+    username: string;
+    password: string;
+}
+
+export class ConnectionManager implements vscode.Disposable {
+    private services = new Map<string, AdtService>();
+    private activeName: string | undefined;
+    private pendingConnects = new Map<string, Promise<boolean>>();
+    private failedAutoConnects = new Set<string>();
+    private disposables: vscode.Disposable[] = [];
+
+    private _onDidChangeActiveConnection = new vscode.EventEmitter<AdtService | undefined>();
+    readonly onDidChangeActiveConnection = this._onDidChangeActiveConnection.event;
+
+    private _onDidChangeConnectionState = new vscode.EventEmitter<AdtService>();
+    readonly onDidChangeConnectionState = this._onDidChangeConnectionState.event;
+
+    constructor(private context: vscode.ExtensionContext) {
+        this.activeName = context.globalState.get<string>(ACTIVE_CONNECTION_KEY);
+
+        // Drop services whose profile was edited or removed in settings
+        this.disposables.push(
+            vscode.workspace.onDidChangeConfiguration(e => {
+                if (PROFILE_SETTINGS.some(setting => e.affectsConfiguration(`abap-tools.${setting}`))) {
+                    this.reloadProfiles();
+                }
+            })
+        );
+    }
+
+    // Profiles from abap-tools.connections, or the legacy default* settings
+    getProfiles(): ConnectionProfile[] {
+        const config = vscode.workspace.getConfiguration('abap-tools');
+        const configured = config.get<Partial<ConnectionProfile>[]>('connections') || [];
+
+        const profiles = configured
+            .filter(p => p.name && p.host)
+            .map(p => ({
+                name: p.name!,
+                host: p.host!,
+                port: p.port || '8000',
+                client: p.client || '100',
+                protocol: p.protocol || (p.port === '8443' ? 'https' : 'http'),
+                language: p.language || 'EN',
+                user: p.user
+            } as ConnectionProfile));
+
+        if (profiles.length === 0 && config.get<string>('defaultHost')) {
+            profiles.push(AdtService.profileFromDefaults());
+        }
+
+        return profiles;
+    }
+
+    get activeProfile(): ConnectionProfile | undefined {
+        const profiles = this.getProfiles();
+        return profiles.find(p => p.name === this.activeName) || profiles[0];
+    }
+
+    // Service for the active system; throws when no system is configured
+    get activeService(): AdtService {
+        const profile = this.activeProfile;
+        if (!profile) {
+            throw new Error('No SAP system configured. Please add one to abap-tools.connections in settings.');
+        }
+        return this.getService(profile.name);
+    }
+
+    hasActiveService(): boolean {
+        return this.activeProfile !== undefined;
+    }
+
+    // One service instance per profile, created on first use
+    getService(system: string): AdtService {
+        let service = this.services.get(system);
+        if (!service) {
+            const profile = this.getProfiles().find(p => p.name === system);
+            if (!profile) {
+                throw new Error(`Unknown SAP system: ${system}`);
+            }
+            service = new AdtService(profile);
+            this.services.set(system, service);
+        }
+        return service;
+    }
+
+    // adt:// URIs carry the system name as their authority
+    getServiceForUri(uri: vscode.Uri): AdtService | undefined {
+        const profile = this.getProfiles().find(
+            p => p.name.toLowerCase() === uri.authority.toLowerCase()
+        );
+        return profile ? this.getService(profile.name) : undefined;
+    }
+
+    getServiceForDocument(document: vscode.TextDocument): AdtService | undefined {
+        return document.uri.scheme === ADT_SCHEME ? this.getServiceForUri(document.uri) : undefined;
+    }
+
+    // Credentials are kept per system in VS Code's SecretStorage
+    async getStoredCredentials(system: string): Promise<StoredCredentials | undefined> {
+        const stored = await this.context.secrets.get(CREDENTIALS_KEY_PREFIX + system);
+        if (!stored) {
+            return undefined;
+        }
+        try {
+            return JSON.parse(stored) as StoredCredentials;
+        } catch {
+            return undefined;
+        }
+    }
+
+    async storeCredentials(system: string, username: string, password: string): Promise<void> {
+        await this.context.secrets.store(
+            CREDENTIALS_KEY_PREFIX + system,
+            JSON.stringify({ username, password })
+        );
+        this.failedAutoConnects.delete(system);
+    }
+
+    async forgetCredentials(system: string): Promise<void> {
+        await this.context.secrets.delete(CREDENTIALS_KEY_PREFIX + system);
+    }
+
+    // Log on with the given credentials and remember them on success
+    async connect(system: string, username: string, password: string): Promise<void> {
+        const service = this.getService(system);
+        try {
+            await service.setCredentials(username, password);
+        } catch (error) {
+            service.disconnect();
+            throw error;
+        } finally {
+            this._onDidChangeConnectionState.fire(service);
+        }
+        await this.storeCredentials(system, username, password);
+    }
+
+    // Reconnect silently with stored credentials. A failed attempt is not
+    // repeated until new credentials are stored, so an expired password
+    // doesn't lock the user account through retries
+    async ensureConnected(system: string): Promise<boolean> {
+        const service = this.getService(system);
+        if (service.getConnectionInfo().isConnected) {
+            return true;
+        }
+        if (this.failedAutoConnects.has(system)) {
+            return false;
+        }
+
+        let pending = this.pendingConnects.get(system);
+        if (!pending) {
+            pending = (async () => {
+                const stored = await this.getStoredCredentials(system);
+                if (!stored) {
+                    return false;
+                }
+                try {
+                    await service.setCredentials(stored.username, stored.password);
+                    return true;
+                } catch (error) {
+                    console.error(`Auto-reconnect to ${system} failed:`, error);
+                    service.disconnect();
+                    this.failedAutoConnects.add(system);
+                    return false;
+                } finally {
+                    this._onDidChangeConnectionState.fire(service);
+                }
+            })().finally(() => this.pendingConnects.delete(system));
+            this.pendingConnects.set(system, pending);
+        }
+        return pending;
+    }
+
+    // Fresh logon with the stored credentials, e.g. after the server session timed out
+    async reconnect(system: string): Promise<boolean> {
+        this.getService(system).disconnect();
+        this.failedAutoConnects.delete(system);
+        return this.ensureConnected(system);
+    }
+
+    async disconnect(system: string, clearCredentials: boolean = false): Promise<void> {
+        const service = this.getService(system);
+        service.disconnect();
+        if (clearCredentials) {
+            await this.forgetCredentials(system);
+        }
+        this._onDidChangeConnectionState.fire(service);
+    }
+
+    async setActive(system: string): Promise<void> {
+        this.activeName = system;
+        await this.context.globalState.update(ACTIVE_CONNECTION_KEY, system);
+        this._onDidChangeActiveConnection.fire(this.getService(system));
+    }
+
+    async pickSystem(): Promise<void> {
+        const profiles = this.getProfiles();
+        const active = this.activeProfile;
+
+        const items: (vscode.QuickPickItem & { system?: string })[] = profiles.map(p => {
+            const service = this.services.get(p.name);
+            return {
+                label: `${p.name === active?.name ? '$(check) ' : ''}${p.name}`,
+                description: `${p.host}:${p.port} / client ${p.client}`,
+                detail: service?.getConnectionInfo().isConnected ? 'Connected' : undefined,
+                system: p.name
+            };
+        });
+        items.push({ label: '$(gear) Configure SAP systems...' });
+
+        const selected = await vscode.window.showQuickPick(items, {
+            placeHolder: 'Select SAP system'
+        });
+
+        if (!selected) {
+            return;
+        }
+        if (!selected.system) {
+            vscode.commands.executeCommand('workbench.action.openSettings', 'abap-tools.connections');
+            return;
+        }
+        await this.setActive(selected.system);
+    }
+
+    private reloadProfiles() {
+        const profiles = this.getProfiles();
+        for (const [name, service] of this.services) {
+            const profile = profiles.find(p => p.name === name);
+            if (!profile || JSON.stringify(profile) !== JSON.stringify(service.profile)) {
+                service.disconnect();
+                this.services.delete(name);
+            }
+        }
+        this._onDidChangeActiveConnection.fire(
+            this.hasActiveService() ? this.activeService : undefined
+        );
+    }
+
+    dispose() {
+        this.services.forEach(service => service.disconnect());
+        this.services.clear();
+        this._onDidChangeActiveConnection.dispose();
+        this._onDidChangeConnectionState.dispose();
+        this.disposables.forEach(d => d.dispose());
+    }
+}
@@ -0,0 +1,108 @@
+import * as assert from 'assert';
+import { formatAbap } from '../../services/AbapFormatter';
+
+suite('ABAP Formatter Test Suite', () => {
+    test('Indents nested blocks', () => {
+        const source = [
+            'method run.',
+            'if a = 1.',
+            'loop at lt_items into data(ls_item).',
+            'write ls_item.',
+            'endloop.',
+            'else.',
+            'clear a.',
+            'endif.',
+            'endmethod.'
+        ].join('\n');
+
+        assert.strictEqual(formatAbap(source), [
+            'METHOD run.',
+            '  IF a = 1.',
+            '    LOOP AT lt_items INTO DATA(ls_item).',
+            '      WRITE ls_item.',
+            '    ENDLOOP.',
+            '  ELSE.',
+            '    CLEAR a.',
+            '  ENDIF.',
+            'ENDMETHOD.'
+        ].join('\n'));
+    });
+
+    test('Indents CASE branches and class sections', () => {
+        const source = [
+            'CLASS lcl DEFINITION FINAL.',
+            'PUBLIC SECTION.',
+            'METHODS run.',
+            'ENDCLASS.',
+            'CASE x.',
+            'WHEN 1.',
+            'y = 2.',
+            'WHEN OTHERS.',
+            'ENDCASE.'
+        ].join('\n');
+
+        assert.strictEqual(formatAbap(source), [
+            'CLASS lcl DEFINITION FINAL.',
+            '  PUBLIC SECTION.',
+            '    METHODS run.',
+            'ENDCLASS.',
+            'CASE x.',
+            '  WHEN 1.',
+            '    y = 2.',
+            '  WHEN OTHERS.',
+            'ENDCASE.'
+        ].join('\n'));
+    });
+
+    test('Leaves literals, comments and components alone', () => {
+        const source = [
+            '* if this is a comment',
+            'data lv_text type string value \'data type\'. " type here',
+            'lv_text = |loop { lo_x->data }|.',
+            'lo_obj->type = ls_struc-type.'
+        ].join('\n');
+
+        assert.strictEqual(formatAbap(source, { keywordCase: 'upper' }), [
+            '* if this is a comment',
+            'DATA lv_text TYPE string VALUE \'data type\'. " type here',
+            'lv_text = |loop { lo_x->data }|.',
+            'lo_obj->type = ls_struc-type.'
+        ].join('\n'));
+    });
+
+    test('Keeps continuation lines relative to their statement', () => {
+        const source = [
+            'IF a = 1.',
+            'CALL METHOD lo_x->run',
+            '  EXPORTING',
+            '    iv_a = 1.',
+            'ENDIF.'
+        ].join('\n');
+
+        assert.strictEqual(formatAbap(source, { keywordCase: 'lower' }), [
+            'if a = 1.',
+            '  call method lo_x->run',
+            '    exporting',
+            '      iv_a = 1.',
+            'endif.'
+        ].join('\n'));
+    });
+
+    test('Does not indent single SELECTs and deferred classes', () => {
+        const source = [
+            'CLASS lcl_test DEFINITION DEFERRED.',
+            'SELECT SINGLE * FROM t000 INTO @DATA(ls_t000).',
+            'SELECT * FROM t000 INTO @DATA(ls_row).',
+            'ENDSELECT.',
+            'WRITE 1.'
+        ].join('\n');
+
+        assert.strictEqual(formatAbap(source), [
+            'CLASS lcl_test DEFINITION DEFERRED.',
+            'SELECT SINGLE * FROM t000 INTO @DATA(ls_t000).',
+            'SELECT * FROM t000 INTO @DATA(ls_row).',
+            'ENDSELECT.',
+            'WRITE 1.'
+        ].join('\n'));
+    });
+});
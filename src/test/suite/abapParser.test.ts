@@ -0,0 +1,113 @@
+import * as assert from 'assert';
+import { parseAbap } from '../../services/AbapParser';
+
+const CLASS_SOURCE = [
+    '* Sample class',
+    '* with two comment lines',
+    'CLASS lcl_order DEFINITION FINAL.',
+    '  PUBLIC SECTION.',
+    '    TYPES: BEGIN OF ty_item,',
+    '             id TYPE i,',
+    '           END OF ty_item.',
+    '    METHODS: create, "first',
+    '             cancel IMPORTING iv_reason TYPE string.',
+    '  PRIVATE SECTION.',
+    '    DATA mv_id TYPE i VALUE 1.',
+    'ENDCLASS.',
+    '',
+    'CLASS lcl_order IMPLEMENTATION.',
+    '  METHOD create.',
+    '    IF mv_id > 0.',
+    '      mv_id = mv_id + 1.',
+    '    ENDIF.',
+    '  ENDMETHOD.',
+    '  METHOD cancel.',
+    '  ENDMETHOD.',
+    'ENDCLASS.'
+].join('\n');
+
+suite('ABAP Parser Test Suite', () => {
+    test('Expands chained statements', () => {
+        const { statements } = parseAbap('DATA: a TYPE i,\n      b TYPE c. " comment\nWRITE \'x. y\'.');
+        assert.deepStrictEqual(
+            statements.map(s => s.tokens.map(t => t.text).join(' ')),
+            ['DATA a TYPE i', 'DATA b TYPE c', 'WRITE \'x. y\'']
+        );
+        assert.deepStrictEqual(statements.map(s => s.chained), [true, true, false]);
+        assert.deepStrictEqual(statements[1].start, { line: 1, column: 6 });
+    });
+
+    test('Keeps commas of unchained statements and calls', () => {
+        const { statements } = parseAbap('SELECT a, b FROM t INTO TABLE @lt.\nDATA: x TYPE string VALUE concat( a, b ).');
+        assert.strictEqual(statements.length, 2);
+        assert.strictEqual(statements[0].keyword, 'SELECT');
+        assert.strictEqual(statements[1].tokens[statements[1].tokens.length - 2].text, 'b');
+    });
+
+    test('Collects comments', () => {
+        const { comments } = parseAbap(CLASS_SOURCE);
+        assert.strictEqual(comments.length, 3);
+        assert.deepStrictEqual(comments.map(c => c.fullLine), [true, true, false]);
+    });
+
+    test('Builds the class outline', () => {
+        const { symbols } = parseAbap(CLASS_SOURCE);
+        assert.deepStrictEqual(symbols.map(s => [s.name, s.detail]), [
+            ['lcl_order', 'definition'],
+            ['lcl_order', 'implementation']
+        ]);
+
+        const [definition, implementation] = symbols;
+        assert.deepStrictEqual(definition.children.map(s => s.name), ['PUBLIC SECTION', 'PRIVATE SECTION']);
+        const [publicSection, privateSection] = definition.children;
+        assert.deepStrictEqual(publicSection.children.map(s => [s.name, s.kind]), [
+            ['ty_item', 'type'],
+            ['create', 'method'],
+            ['cancel', 'method']
+        ]);
+        assert.deepStrictEqual(publicSection.children[0].children.map(s => s.name), ['id']);
+        assert.deepStrictEqual(privateSection.children.map(s => [s.name, s.detail]), [['mv_id', 'i']]);
+        assert.strictEqual(publicSection.end.line, 8);
+        assert.strictEqual(definition.end.line, 11);
+
+        assert.deepStrictEqual(implementation.children.map(s => [s.name, s.start.line, s.end.line]), [
+            ['create', 14, 18],
+            ['cancel', 19, 20]
+        ]);
+    });
+
+    test('Outlines forms and events of reports', () => {
+        const source = [
+            'REPORT zreport.',
+            'PARAMETERS p_id TYPE i.',
+            'START-OF-SELECTION.',
+            '  PERFORM run.',
+            'FORM run.',
+            '  DATA lv_local TYPE i.',
+            'ENDFORM.'
+        ].join('\n');
+        const { symbols } = parseAbap(source);
+        assert.deepStrictEqual(symbols.map(s => [s.name, s.kind, s.start.line, s.end.line]), [
+            ['p_id', 'parameter', 1, 1],
+            ['START-OF-SELECTION', 'event', 2, 3],
+            ['run', 'form', 4, 6]
+        ]);
+        // Locals of forms are not part of the outline
+        assert.strictEqual(symbols[2].children.length, 0);
+    });
+
+    test('Computes folding ranges', () => {
+        const { foldingRanges } = parseAbap(CLASS_SOURCE);
+        assert.deepStrictEqual(
+            foldingRanges.map(r => [r.startLine, r.endLine, r.kind]),
+            [
+                [2, 11, 'block'],
+                [15, 17, 'block'],
+                [14, 18, 'block'],
+                [19, 20, 'block'],
+                [13, 21, 'block'],
+                [0, 1, 'comment']
+            ]
+        );
+    });
+});
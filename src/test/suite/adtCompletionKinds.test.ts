@@ -0,0 +1,19 @@
+import * as assert from 'assert';
+import { completionKindOf } from '../../services/AdtCompletionKinds';
+
+suite('ADT Completion Kinds Test Suite', () => {
+    test('Maps the proposal kinds of the completion service', () => {
+        assert.strictEqual(completionKindOf(1), 'keyword');
+        assert.strictEqual(completionKindOf(2), 'variable');
+        assert.strictEqual(completionKindOf(4), 'class');
+        assert.strictEqual(completionKindOf(5), 'interface');
+        assert.strictEqual(completionKindOf(6), 'method');
+        assert.strictEqual(completionKindOf(7), 'parameter');
+        assert.strictEqual(completionKindOf(8), 'field');
+    });
+
+    test('Treats unknown kinds as other', () => {
+        assert.strictEqual(completionKindOf(0), 'other');
+        assert.strictEqual(completionKindOf(99), 'other');
+    });
+});
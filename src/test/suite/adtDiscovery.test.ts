@@ -0,0 +1,61 @@
+import * as assert from 'assert';
+import { AdtServiceCatalog } from '../../services/AdtDiscovery';
+
+const DISCOVERY_XML = `<?xml version="1.0" encoding="utf-8"?>
+<app:service xmlns:app="http://www.w3.org/2007/app" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:adtcomp="http://www.sap.com/adt/compatibility">
+  <app:workspace>
+    <atom:title>Class Library</atom:title>
+    <app:collection href="/sap/bc/adt/oo/classes">
+      <atom:title>Classes</atom:title>
+      <app:accept>application/vnd.sap.adt.oo.classes.v2+xml</app:accept>
+      <app:accept>application/vnd.sap.adt.oo.classes.v4+xml</app:accept>
+      <app:accept>application/vnd.sap.adt.oo.classes+xml</app:accept>
+      <atom:category term="classes" scheme="http://www.sap.com/adt/categories/oo"/>
+      <adtcomp:templateLinks>
+        <adtcomp:templateLink rel="http://www.sap.com/adt/relations/oo/validation" template="/sap/bc/adt/oo/validation/objectname{?objname}"/>
+      </adtcomp:templateLinks>
+    </app:collection>
+  </app:workspace>
+  <app:workspace>
+    <atom:title>ABAP Test Cockpit</atom:title>
+    <app:collection href="/sap/bc/adt/atc/runs">
+      <atom:title>ATC Runs</atom:title>
+    </app:collection>
+  </app:workspace>
+</app:service>`;
+
+suite('ADT Discovery Test Suite', () => {
+    let catalog: AdtServiceCatalog;
+
+    suiteSetup(async () => {
+        catalog = await AdtServiceCatalog.parse(DISCOVERY_XML);
+    });
+
+    test('Parses workspaces and collections', () => {
+        assert.deepStrictEqual(catalog.workspaces.map(w => w.title), ['Class Library', 'ABAP Test Cockpit']);
+        const classes = catalog.getCollection('/sap/bc/adt/oo/classes');
+        assert.ok(classes);
+        assert.strictEqual(classes.title, 'Classes');
+        assert.strictEqual(classes.accept.length, 3);
+        assert.deepStrictEqual(classes.category, { term: 'classes', scheme: 'http://www.sap.com/adt/categories/oo' });
+    });
+
+    test('Parses template links', () => {
+        const links = catalog.getTemplateLinks('/sap/bc/adt/oo/classes', 'http://www.sap.com/adt/relations/oo/validation');
+        assert.strictEqual(links.length, 1);
+        assert.strictEqual(links[0].template, '/sap/bc/adt/oo/validation/objectname{?objname}');
+    });
+
+    test('Detects available features', () => {
+        assert.ok(catalog.hasFeature('atc'));
+        assert.ok(!catalog.hasFeature('aunit'));
+    });
+
+    test('Picks the newest media type version', () => {
+        assert.strictEqual(
+            catalog.getMediaType('/sap/bc/adt/oo/classes', 'application/vnd.sap.adt.oo.classes'),
+            'application/vnd.sap.adt.oo.classes.v4+xml'
+        );
+        assert.strictEqual(catalog.getMediaType('/sap/bc/adt/atc/runs', 'application/xml'), undefined);
+    });
+});
@@ -0,0 +1,50 @@
+import * as assert from 'assert';
+import { AdtError } from '../../services/AdtError';
+
+const exception = (type: string, message: string, properties = '') => `<?xml version="1.0" encoding="utf-8"?>
+<exc:exception xmlns:exc="http://www.sap.com/abapxml/types/communicationframework">
+    <namespace id="com.sap.adt"/>
+    <type id="${type}"/>
+    <message lang="EN">${message}</message>
+    <localizedMessage lang="EN">${message}</localizedMessage>
+    <properties>${properties}</properties>
+</exc:exception>`;
+
+suite('ADT Error Test Suite', () => {
+    test('Parses the exception document', async () => {
+        const error = await AdtError.fromResponse(
+            404,
+            'Not Found',
+            exception('ExceptionResourceNotFound', 'Class ZCL_MISSING does not exist', '<entry key="T100KEY-ID">EU</entry>')
+        );
+        assert.ok(error instanceof Error);
+        assert.strictEqual(error.message, 'Class ZCL_MISSING does not exist');
+        assert.strictEqual(error.namespace, 'com.sap.adt');
+        assert.strictEqual(error.type, 'ExceptionResourceNotFound');
+        assert.deepStrictEqual(error.properties, { 'T100KEY-ID': 'EU' });
+        assert.strictEqual(error.kind, 'notFound');
+    });
+
+    test('Recognises locks, missing authorizations and timeouts', async () => {
+        const locked = await AdtError.fromResponse(
+            403,
+            'Forbidden',
+            exception('ExceptionResourceNoAccess', 'User DEVELOPER is currently editing ZCL_ORDER')
+        );
+        assert.strictEqual(locked.kind, 'locked');
+        assert.strictEqual(locked.lockedBy, 'DEVELOPER');
+
+        const forbidden = await AdtError.fromResponse(403, 'Forbidden', exception('ExceptionNoAuthorization', 'No authorization for S_DEVELOP'));
+        assert.strictEqual(forbidden.kind, 'notAuthorized');
+
+        const timeout = await AdtError.fromResponse(400, 'Bad Request', exception('ExceptionSessionTimeout', 'Session timed out'));
+        assert.strictEqual(timeout.kind, 'sessionTimeout');
+    });
+
+    test('Falls back to the status for other bodies', async () => {
+        const error = await AdtError.fromResponse(500, 'Internal Server Error', '<html>dump</html>');
+        assert.strictEqual(error.message, 'Internal Server Error (500)');
+        assert.strictEqual(error.kind, 'other');
+        assert.strictEqual(error.body, '<html>dump</html>');
+    });
+});
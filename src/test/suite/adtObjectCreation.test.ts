@@ -0,0 +1,50 @@
+import * as assert from 'assert';
+import { AdtError } from '../../services/AdtError';
+import { checkObjectName, classFieldOfError, creationBody, getCreatableType, objectPathOf } from '../../services/AdtObjectCreation';
+
+suite('ADT Object Creation Test Suite', () => {
+    test('Checks names locally', () => {
+        const program = getCreatableType('PROG/P')!;
+        assert.strictEqual(checkObjectName(program, 'ZREPORT'), undefined);
+        assert.strictEqual(checkObjectName(program, '/ABC/REPORT'), undefined);
+        assert.ok(checkObjectName(program, 'Z REPORT'));
+        assert.ok(checkObjectName(program, 'RSREPORT'));
+        assert.ok(checkObjectName(getCreatableType('MSAG/N')!, 'Z'.repeat(21)));
+    });
+
+    test('Creates programs in their package', () => {
+        const program = getCreatableType('PROG/P')!;
+        const details = { type: 'PROG/P', name: 'ZREPORT', description: 'Say "hi"', package: '$TMP' };
+
+        const body = creationBody(program, details, 'DEVELOPER');
+        assert.ok(body.includes('<program:abapProgram xmlns:program="http://www.sap.com/adt/programs/programs"'));
+        assert.ok(body.includes('adtcore:description="Say &quot;hi&quot;"'));
+        assert.ok(body.includes('<adtcore:packageRef adtcore:name="$TMP"/>'));
+        assert.strictEqual(objectPathOf(program, details), '/programs/programs/zreport');
+        assert.strictEqual(program.sourceTemplate!(details), 'REPORT zreport.\n');
+    });
+
+    test('Creates function modules inside their group', () => {
+        const functionModule = getCreatableType('FUGR/FF')!;
+        const details = { type: 'FUGR/FF', name: 'Z_CALC', description: 'Calc', package: 'ZPKG', container: 'ZFG' };
+
+        const body = creationBody(functionModule, details);
+        assert.ok(body.includes('adtcore:containerRef adtcore:name="ZFG" adtcore:type="FUGR/F"'));
+        assert.ok(!body.includes('packageRef'));
+        assert.strictEqual(objectPathOf(functionModule, details), '/functions/groups/zfg/fmodules/z_calc');
+    });
+
+    test('Shows class creation errors next to their field', () => {
+        const details = { superclass: 'ZCL_BASE', interfaces: ['ZIF_A', 'ZIF_B'] };
+        const error = (type: string, properties: Record<string, string> = {}) =>
+            new AdtError('failed', 400, 'Bad Request', 'other', 'com.sap.adt', type, properties);
+
+        assert.strictEqual(classFieldOfError(error('ExceptionResourceAlreadyExists'), details), 'name');
+        assert.strictEqual(classFieldOfError(error('ExceptionResourceNotFound', { 'T100KEY-V1': 'ZCL_BASE' }), details), 'superclass');
+        assert.strictEqual(classFieldOfError(error('ExceptionResourceNotFound', { 'T100KEY-V1': 'zif_b' }), details), 'interfaces');
+        assert.strictEqual(classFieldOfError(error('ExceptionInvalidDescription'), details), 'description');
+        assert.strictEqual(classFieldOfError(error('ExceptionInvalidNamespace'), details), 'name');
+        assert.strictEqual(classFieldOfError(error('ExceptionResourceNoAccess'), details), 'form');
+        assert.strictEqual(classFieldOfError(new Error('A transport request is required to change this object'), details), 'form');
+    });
+});
@@ -0,0 +1,29 @@
+import * as assert from 'assert';
+import { editorPathFor, getObjectType, languageOfPath, objectPathFor, objectTypeOfPath } from '../../services/AdtObjectTypes';
+
+suite('ADT Object Types Test Suite', () => {
+    test('Finds types by full or main type', () => {
+        assert.strictEqual(getObjectType('intf/oi')?.collection, '/oo/interfaces');
+        assert.strictEqual(getObjectType('TABL')?.type, 'TABL/DT');
+        assert.strictEqual(getObjectType('TABL/DS')?.label, 'Structure');
+        assert.strictEqual(getObjectType('XSLT/VT'), undefined);
+    });
+
+    test('Builds the path the editor opens', () => {
+        const module = getObjectType('FUGR/FF')!;
+        assert.strictEqual(
+            editorPathFor(module, objectPathFor(module, 'Z_CALC', 'ZFG')),
+            '/functions/groups/zfg/fmodules/z_calc/source/main'
+        );
+        const element = getObjectType('DTEL/DE')!;
+        assert.strictEqual(editorPathFor(element, objectPathFor(element, 'ZAMOUNT')), '/ddic/dataelements/zamount');
+    });
+
+    test('Resolves type and language of paths', () => {
+        assert.strictEqual(objectTypeOfPath('/functions/groups/zfg/fmodules/z_calc/source/main')?.type, 'FUGR/FF');
+        assert.strictEqual(objectTypeOfPath('/functions/groups/zfg/source/main')?.type, 'FUGR/F');
+        assert.strictEqual(languageOfPath('/ddic/ddl/sources/zi_order/source/main'), 'cds');
+        assert.strictEqual(languageOfPath('/oo/classes/zcl_order/includes/testclasses'), 'abap');
+        assert.strictEqual(languageOfPath('/ddic/domains/zstatus'), 'xml');
+    });
+});
@@ -16,6 +16,22 @@ suite('ADT Service Test Suite', () => {
         assert.strictEqual(connectionInfo.isConnected, false);
     });
 
+    test('Connection profile builds the base URL', () => {
+        const service = new AdtService({
+            name: 'QAS',
+            host: 'qas.example.com',
+            port: '44300',
+            client: '200',
+            protocol: 'https',
+            language: 'DE'
+        });
+        const connectionInfo = service.getConnectionInfo();
+        assert.strictEqual(connectionInfo.system, 'QAS');
+        assert.strictEqual(connectionInfo.url, 'https://qas.example.com:44300/sap/bc/adt');
+        assert.strictEqual(connectionInfo.client, '200');
+        assert.strictEqual(connectionInfo.language, 'DE');
+    });
+
     test('Connection command exists', async () => {
         const commands = await vscode.commands.getCommands();
         assert.ok(commands.includes('abap-tools.connectSAP'));
@@ -35,7 +51,9 @@ suite('ADT Service Test Suite', () => {
             'abap-tools.getObjectStructure',
             'abap-tools.connectSAP',
             'abap-tools.showConnectionInfo',
-            'abap-tools.disconnect'
+            'abap-tools.disconnect',
+            'abap-tools.switchSystem',
+            'abap-tools.forgetCredentials'
         ];
 
         for (const cmd of requiredCommands) {
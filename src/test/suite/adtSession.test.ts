@@ -0,0 +1,158 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { AdtError } from '../../services/AdtError';
+import { AdtSession } from '../../services/AdtSession';
+
+interface RecordedRequest {
+    method: string;
+    url: string;
+    headers: http.IncomingHttpHeaders;
+}
+
+suite('ADT Session Test Suite', () => {
+    let server: http.Server;
+    let session: AdtSession;
+    let requests: RecordedRequest[];
+    let validToken: string;
+    let tokenCounter: number;
+
+    // Minimal ADT stand-in: hands out CSRF tokens and session cookies on
+    // /discovery and rejects writes whose token doesn't match
+    suiteSetup(async () => {
+        server = http.createServer((req, res) => {
+            requests.push({ method: req.method!, url: req.url!, headers: req.headers });
+            const path = req.url!.split('?')[0];
+
+            if (path === '/sap/bc/adt/discovery') {
+                if (req.headers['x-csrf-token'] === 'Fetch') {
+                    validToken = `token-${++tokenCounter}`;
+                    res.setHeader('x-csrf-token', validToken);
+                }
+                res.setHeader('set-cookie', [
+                    'sap-usercontext=sap-client=100; path=/',
+                    `SAP_SESSIONID_DEV_100=session-${tokenCounter}; path=/; HttpOnly`
+                ]);
+                res.end('<app:service/>');
+                return;
+            }
+
+            if (req.method !== 'GET' && req.headers['x-csrf-token'] !== validToken) {
+                res.statusCode = 403;
+                res.setHeader('x-csrf-token', 'Required');
+                res.end('CSRF token validation failed');
+                return;
+            }
+
+            if (path === '/sap/bc/adt/logout') {
+                res.setHeader('set-cookie', 'SAP_SESSIONID_DEV_100=; Max-Age=0; path=/');
+            }
+            res.end('ok');
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    });
+
+    suiteTeardown(async () => {
+        await new Promise<void>(resolve => server.close(() => resolve()));
+    });
+
+    setup(() => {
+        requests = [];
+        validToken = '';
+        tokenCounter = 0;
+        const { port } = server.address() as AddressInfo;
+        session = new AdtSession({
+            baseUrl: `http://127.0.0.1:${port}/sap/bc/adt`,
+            client: '100',
+            language: 'EN'
+        });
+        session.setCredentials('DEVELOPER', 'secret');
+    });
+
+    test('Sends client and language on every request', async () => {
+        await session.request('/oo/classes/zcl_test', 'POST', 'body');
+        assert.strictEqual(requests.length, 2);
+        for (const request of requests) {
+            assert.ok(request.url.includes('sap-client=100'), request.url);
+            assert.ok(request.url.includes('sap-language=EN'), request.url);
+        }
+    });
+
+    test('Fetches the CSRF token only once', async () => {
+        await session.request('/oo/classes/zcl_a', 'POST');
+        await session.request('/oo/classes/zcl_b', 'POST');
+        const discoveryCalls = requests.filter(r => r.url.startsWith('/sap/bc/adt/discovery'));
+        assert.strictEqual(discoveryCalls.length, 1);
+    });
+
+    test('Keeps every cookie of the session', async () => {
+        await session.request('/oo/classes/zcl_a', 'POST');
+        const cookie = requests[1].headers.cookie || '';
+        assert.ok(cookie.includes('sap-usercontext=sap-client=100'), cookie);
+        assert.ok(cookie.includes('SAP_SESSIONID_DEV_100=session-1'), cookie);
+    });
+
+    test('Removes expired cookies', async () => {
+        await session.request('/logout', 'POST');
+        await session.request('/oo/classes/zcl_a', 'POST');
+        const cookie = requests[requests.length - 1].headers.cookie || '';
+        assert.ok(!cookie.includes('SAP_SESSIONID_DEV_100'), cookie);
+    });
+
+    test('Refreshes an expired CSRF token and retries once', async () => {
+        await session.request('/oo/classes/zcl_a', 'POST');
+        validToken = 'rotated-by-server';
+
+        const response = await session.request('/oo/classes/zcl_a', 'POST');
+        assert.strictEqual(response.body, 'ok');
+        assert.strictEqual(tokenCounter, 2);
+        assert.strictEqual(requests[requests.length - 1].headers['x-csrf-token'], 'token-2');
+    });
+
+    test('Fails after a single retry', async () => {
+        const { port } = server.address() as AddressInfo;
+        const failing = new AdtSession({
+            baseUrl: `http://127.0.0.1:${port}/sap/bc/adt/unknown`,
+            client: '100',
+            language: 'EN'
+        });
+        await assert.rejects(
+            failing.request('/oo/classes/zcl_a', 'POST'),
+            (error: unknown) => error instanceof AdtError && error.status === 403
+        );
+        const posts = requests.filter(r => r.method === 'POST' && r.url.startsWith('/sap/bc/adt/unknown/oo/classes/zcl_a'));
+        assert.strictEqual(posts.length, 2);
+    });
+
+    test('Marks only the requests of a runStateful section as stateful', async () => {
+        await session.runStateful(async request => {
+            await request('/oo/classes/zcl_a', 'POST');
+            // Unrelated requests running meanwhile stay stateless
+            await session.request('/oo/classes/zcl_b', 'GET');
+        });
+        await session.request('/oo/classes/zcl_a', 'GET');
+
+        const [, stateful, concurrent, stateless] = requests;
+        assert.strictEqual(stateful.headers['x-sap-adt-sessiontype'], 'stateful');
+        assert.strictEqual(concurrent.headers['x-sap-adt-sessiontype'], 'stateless');
+        assert.strictEqual(stateless.headers['x-sap-adt-sessiontype'], 'stateless');
+    });
+
+    test('Runs overlapping stateful sections one after another', async () => {
+        const section = (name: string) => session.runStateful(async request => {
+            await request(`/oo/classes/${name}`, 'POST');
+            await request(`/oo/classes/${name}`, 'PUT');
+        });
+        await Promise.all([section('zcl_a'), section('zcl_b')]);
+        await session.request('/oo/classes/zcl_a', 'GET');
+
+        const calls = requests.slice(1).map(r => `${r.method} ${r.url.split('?')[0]} ${r.headers['x-sap-adt-sessiontype']}`);
+        assert.deepStrictEqual(calls, [
+            'POST /sap/bc/adt/oo/classes/zcl_a stateful',
+            'PUT /sap/bc/adt/oo/classes/zcl_a stateful',
+            'POST /sap/bc/adt/oo/classes/zcl_b stateful',
+            'PUT /sap/bc/adt/oo/classes/zcl_b stateful',
+            'GET /sap/bc/adt/oo/classes/zcl_a stateless'
+        ]);
+    });
+});